@@ -3,7 +3,8 @@ import type {
   GameState,
   Enemy,
   Player,
-  RelicStar
+  RelicStar,
+  Missile
 } from '../utils/gameModels';
 import type {
   Projectile,
@@ -15,6 +16,7 @@ import type {
 import {
   drawPlayer,
   drawEnemy,
+  drawMissile,
   drawBackground
 } from '../utils/rendering/drawFunctions';
 
@@ -96,6 +98,12 @@ export function useGameRenderer(canvasWidth: number, canvasHeight: number) {
     enemiesToRender.forEach(enemy => drawEnemy(ctx.value!, enemy));
   };
 
+  // Draw all incoming missiles
+  const drawMissiles = (missiles: Missile[]) => {
+    if (!ctx.value) return;
+    missiles.forEach(missile => drawMissile(ctx.value!, missile));
+  };
+
   // Draw all projectiles
   const drawProjectiles = (projectiles: Projectile[]) => {
     if (!ctx.value) return;
@@ -952,6 +960,17 @@ export function useGameRenderer(canvasWidth: number, canvasHeight: number) {
     ctx.value.restore();
   };
 
+  // Place an entity between its previous and current simulation position
+  const interpolate = <T extends { x: number; y: number; prevX?: number; prevY?: number }>(entity: T, alpha: number): T => {
+    if (entity.prevX === undefined || entity.prevY === undefined || alpha >= 1) return entity;
+
+    return {
+      ...entity,
+      x: entity.prevX + (entity.x - entity.prevX) * alpha,
+      y: entity.prevY + (entity.y - entity.prevY) * alpha
+    };
+  };
+
   // Main render function
   const render = (
     gameState: GameState,
@@ -964,7 +983,8 @@ export function useGameRenderer(canvasWidth: number, canvasHeight: number) {
     autoFireLaserOpacity: number,
     deltaTime: number,
     highlightedRelicStarId: number | null = null,
-    currentTypedText: string = ''
+    currentTypedText: string = '',
+    interpolationAlpha: number = 1
   ) => {
     if (!ctx.value) return;
 
@@ -980,12 +1000,17 @@ export function useGameRenderer(canvasWidth: number, canvasHeight: number) {
       deltaTime
     );
 
-    // Draw game entities
-    drawEnemies(gameState.enemies);
-    drawProjectiles(projectiles);
+    // Draw game entities at their interpolated positions
+    drawEnemies(gameState.enemies.map(enemy => interpolate(enemy, interpolationAlpha)));
+    drawProjectiles(projectiles.map(projectile => interpolate(projectile, interpolationAlpha)));
+    drawMissiles(gameState.missiles.map(missile => interpolate(missile, interpolationAlpha)));
     drawPlayerCharacter(gameState.player);
-    drawRelicStars(gameState.relicStars, highlightedRelicStarId);
-    drawAutoFireLaser(gameState.player, autoFireTarget, autoFireLaserOpacity);
+    drawRelicStars(gameState.relicStars.map(star => interpolate(star, interpolationAlpha)), highlightedRelicStarId);
+    drawAutoFireLaser(
+      gameState.player,
+      autoFireTarget && interpolate(autoFireTarget, interpolationAlpha),
+      autoFireLaserOpacity
+    );
     drawExplosions(explosions);
     drawDamageNumbers(damageNumbers);
 
@@ -0,0 +1,53 @@
+import { ref } from 'vue';
+import type { RunSubmission, SubmitRunResponse } from '../utils/leaderboard';
+
+/**
+ * Interface for the state of the last run submission
+ */
+export interface SubmissionState {
+  status: 'idle' | 'submitting' | 'submitted' | 'failed';
+  rank: number | null;
+  total: number | null;
+  error: string | null;
+}
+
+/**
+ * Submits finished runs to the leaderboard API and keeps track of the result.
+ */
+export function useLeaderboard() {
+  const submission = ref<SubmissionState>({ status: 'idle', rank: null, total: null, error: null });
+  // Bumped by every submission and reset, so a response that arrives late can tell it is stale
+  let submissionToken = 0;
+
+  // Submit a finished run and remember its rank
+  const submitRun = async (run: RunSubmission) => {
+    const token = ++submissionToken;
+    submission.value = { status: 'submitting', rank: null, total: null, error: null };
+
+    try {
+      const response = await $fetch<SubmitRunResponse>('/api/runs', { method: 'POST', body: run });
+      if (token !== submissionToken) return;
+      submission.value = { status: 'submitted', rank: response.rank, total: response.total, error: null };
+    } catch (error) {
+      console.warn('Failed to submit run', error);
+      if (token !== submissionToken) return;
+      submission.value = {
+        status: 'failed',
+        rank: null,
+        total: null,
+        error: error instanceof Error ? error.message : 'Could not reach the leaderboard'
+      };
+    }
+  };
+
+  const resetSubmission = () => {
+    submissionToken++;
+    submission.value = { status: 'idle', rank: null, total: null, error: null };
+  };
+
+  return {
+    submission,
+    submitRun,
+    resetSubmission
+  };
+}
@@ -6,6 +6,13 @@ export default defineNuxtConfig({
     '~/assets/css/custom-scrollbar.css'
   ],
   nitro: {
-    preset: 'vercel'
+    preset: 'vercel',
+    storage: {
+      // Submitted runs for the leaderboard, kept on disk so no outside service is needed
+      runs: {
+        driver: 'fs',
+        base: './.data/runs'
+      }
+    }
   }
 })
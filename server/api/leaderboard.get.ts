@@ -0,0 +1,42 @@
+/**
+ * GET /api/leaderboard?mode=standard&period=week&limit=20
+ * Best runs, optionally for one mode (all modes when omitted) and one period (all time by default).
+ */
+import {
+  type LeaderboardResponse,
+  type LeaderboardPeriod,
+  RUN_MODES,
+  LEADERBOARD_PERIODS
+} from '../../utils/leaderboard';
+import { getRankedRuns, getQueryOption } from '../utils/runs';
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+
+export default defineEventHandler(async (event): Promise<LeaderboardResponse> => {
+  const mode = getQueryOption(event, 'mode', RUN_MODES, null);
+  const period = getQueryOption(event, 'period', LEADERBOARD_PERIODS, 'all') as LeaderboardPeriod;
+
+  const requestedLimit = Number(getQuery(event).limit ?? DEFAULT_LIMIT);
+  const limit = Number.isInteger(requestedLimit) && requestedLimit > 0 ? Math.min(requestedLimit, MAX_LIMIT) : DEFAULT_LIMIT;
+
+  const ranked = await getRankedRuns(mode, period);
+  return {
+    mode,
+    period,
+    total: ranked.length,
+    entries: ranked.slice(0, limit).map((run, index) => ({
+      rank: index + 1,
+      id: run.id,
+      mode: run.mode,
+      score: run.score,
+      wave: run.wave,
+      level: run.level,
+      survivalTime: run.survivalTime,
+      gameWon: run.gameWon,
+      netWpm: run.typing.netWpm,
+      accuracy: run.typing.accuracy,
+      submittedAt: run.submittedAt
+    }))
+  };
+});
@@ -0,0 +1,19 @@
+/**
+ * POST /api/runs
+ * Submit a finished run with its recording. The run is replayed to verify it before it is stored,
+ * and the response holds its id and all-time rank within its mode.
+ */
+import type { SubmitRunResponse } from '../../utils/leaderboard';
+import { validateRunSubmission, verifyRunSubmission, storeRun, getRankedRuns } from '../utils/runs';
+
+export default defineEventHandler(async (event): Promise<SubmitRunResponse> => {
+  const submission = await verifyRunSubmission(validateRunSubmission(await readBody(event)));
+  const run = await storeRun(submission);
+
+  const ranked = await getRankedRuns(run.mode, 'all');
+  return {
+    id: run.id,
+    rank: ranked.findIndex(other => other.id === run.id) + 1,
+    total: ranked.length
+  };
+});
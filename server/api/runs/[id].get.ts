@@ -0,0 +1,14 @@
+/**
+ * GET /api/runs/:id
+ * A single submitted run.
+ */
+import type { StoredRun } from '../../../utils/leaderboard';
+import { getStoredRun } from '../../utils/runs';
+
+export default defineEventHandler(async (event): Promise<StoredRun> => {
+  const run = await getStoredRun(getRouterParam(event, 'id') ?? '');
+  if (!run) {
+    throw createError({ statusCode: 404, statusMessage: 'Run not found' });
+  }
+  return run;
+});
@@ -0,0 +1,280 @@
+/**
+ * Run storage
+ * Verifies submitted runs by replaying them, and stores them in the "runs" storage mount
+ * (a filesystem driver, see nuxt.config.ts).
+ */
+import type { H3Event } from 'h3';
+import {
+  type RunSubmission,
+  type StoredRun,
+  type LeaderboardPeriod,
+  type RunMode,
+  RUN_MODES,
+  compareRuns,
+  createRunSubmission
+} from '../../utils/leaderboard';
+import {
+  type RunRecording,
+  RECORDING_FORMAT_VERSION,
+  SIMULATION_TIMESTEP_MS
+} from '../../utils/mechanics/gameSimulation';
+import { type RunVerificationResult, createRunVerifier } from '../../utils/mechanics/runVerification';
+import { WORD_TIERS } from '../../utils/wordGenerator';
+import { validateWaveSet } from '../../utils/waveScript';
+
+const RUNS_STORAGE = 'runs';
+
+// How far back each leaderboard period reaches
+const PERIOD_DURATIONS: Record<Exclude<LeaderboardPeriod, 'all'>, number> = {
+  day: 24 * 60 * 60 * 1000,
+  week: 7 * 24 * 60 * 60 * 1000,
+  month: 30 * 24 * 60 * 60 * 1000
+};
+
+const RUN_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+// Keep recordings to what a real run can produce
+const MAX_RUN_TICKS = 150000; // A little over 20 minutes at 120 Hz, the longest a run can last
+const MAX_RECORDED_INPUTS = 100000;
+const MAX_CANVAS_SIZE = 4096;
+
+// Reject a submission with a 400 explaining which field is wrong
+const invalid = (field: string) => {
+  return createError({ statusCode: 400, statusMessage: `Invalid run submission: ${field}` });
+};
+
+const isNonNegativeNumber = (value: unknown): value is number => {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0;
+};
+
+const isTickCount = (value: unknown, max: number): value is number => {
+  return Number.isInteger(value) && (value as number) >= 0 && (value as number) <= max;
+};
+
+const isValidInput = (input: any): boolean => {
+  switch (input?.type) {
+    case 'key':
+      return typeof input.key === 'string' && input.key.length <= 20;
+    case 'selectSkill':
+    case 'banishSkill':
+      return typeof input.skillId === 'string';
+    case 'discardRelic':
+      return typeof input.relicId === 'string';
+    case 'skipLevelUp':
+      return input.reward === 'shield' || input.reward === 'xp';
+    case 'rerollSkills':
+    case 'closeRelic':
+    case 'togglePause':
+      return true;
+    default:
+      return false;
+  }
+};
+
+const isValidWordList = (wordList: any): boolean => {
+  if (wordList === undefined || wordList === null) return true;
+  const isWordArray = (value: unknown) => Array.isArray(value) && value.every(word => typeof word === 'string');
+
+  return typeof wordList.name === 'string' &&
+    WORD_TIERS.every(tier => isWordArray(wordList.tiers?.[tier])) &&
+    (wordList.compounds === undefined || (Array.isArray(wordList.compounds) && wordList.compounds.every((compound: any) =>
+      typeof compound?.word === 'string' && isWordArray(compound.parts)
+    )));
+};
+
+// Check that a submitted recording can be replayed
+const validateRecording = (recording: any, seed: number): RunRecording => {
+  if (!recording || typeof recording !== 'object') throw invalid('recording');
+  if (recording.version !== RECORDING_FORMAT_VERSION) throw invalid('recording.version');
+  if (recording.seed !== seed) throw invalid('recording.seed');
+  if (recording.timestepMs !== SIMULATION_TIMESTEP_MS) throw invalid('recording.timestepMs');
+  if (!isTickCount(recording.totalTicks, MAX_RUN_TICKS)) throw invalid('recording.totalTicks');
+
+  for (const field of ['canvasWidth', 'canvasHeight']) {
+    if (!Number.isInteger(recording[field]) || recording[field] <= 0 || recording[field] > MAX_CANVAS_SIZE) {
+      throw invalid(`recording.${field}`);
+    }
+  }
+
+  const options = recording.options;
+  if (!options || typeof options !== 'object') throw invalid('recording.options');
+  if (!isValidWordList(options.wordList)) throw invalid('recording.options.wordList');
+  if (options.waveSet !== undefined && options.waveSet !== null) {
+    const result = validateWaveSet(options.waveSet);
+    if (!result.valid) {
+      const error = result.errors[0];
+      throw invalid(`recording.options.waveSet.${error.path} (${error.message})`);
+    }
+  }
+  if (options.trainingFocus !== undefined && typeof options.trainingFocus !== 'boolean') {
+    throw invalid('recording.options.trainingFocus');
+  }
+
+  const inputs = recording.inputs;
+  if (!Array.isArray(inputs) || inputs.length > MAX_RECORDED_INPUTS || !inputs.every((recorded: any, index: number) =>
+    isTickCount(recorded?.tick, recording.totalTicks) &&
+    (index === 0 || recorded.tick >= inputs[index - 1].tick) &&
+    isValidInput(recorded.input)
+  )) {
+    throw invalid('recording.inputs');
+  }
+
+  if (!Array.isArray(recording.checkpoints) || !recording.checkpoints.every((checkpoint: any) =>
+    checkpoint && typeof checkpoint === 'object' && isTickCount(checkpoint.tick, recording.totalTicks)
+  )) {
+    throw invalid('recording.checkpoints');
+  }
+
+  return recording as RunRecording;
+};
+
+/**
+ * Check that a request body is a well-formed run submission
+ */
+export const validateRunSubmission = (body: any): RunSubmission => {
+  if (!body || typeof body !== 'object') throw invalid('body');
+  if (!Number.isInteger(body.seed) || body.seed < 0) throw invalid('seed');
+  if (!RUN_MODES.includes(body.mode)) throw invalid('mode');
+
+  for (const field of ['score', 'wave', 'level', 'survivalTime', 'enemiesKilled']) {
+    if (!isNonNegativeNumber(body[field])) throw invalid(field);
+  }
+  if (typeof body.gameWon !== 'boolean') throw invalid('gameWon');
+
+  if (!Array.isArray(body.relics) || !body.relics.every((id: unknown) => typeof id === 'string')) {
+    throw invalid('relics');
+  }
+  if (!Array.isArray(body.skills) || !body.skills.every((skill: any) =>
+    typeof skill?.id === 'string' && Number.isInteger(skill.level) && skill.level > 0
+  )) {
+    throw invalid('skills');
+  }
+
+  const typing = body.typing;
+  if (!typing || !['netWpm', 'grossWpm', 'completedWords', 'errors'].every(field => isNonNegativeNumber(typing[field]))) {
+    throw invalid('typing');
+  }
+  if (!isNonNegativeNumber(typing.accuracy) || typing.accuracy > 1) throw invalid('typing.accuracy');
+
+  const recording = validateRecording(body.recording, body.seed);
+
+  return {
+    seed: body.seed,
+    mode: body.mode,
+    score: body.score,
+    wave: body.wave,
+    level: body.level,
+    survivalTime: body.survivalTime,
+    gameWon: body.gameWon,
+    enemiesKilled: body.enemiesKilled,
+    relics: body.relics,
+    skills: body.skills.map((skill: any) => ({ id: skill.id, level: skill.level })),
+    typing: {
+      netWpm: typing.netWpm,
+      grossWpm: typing.grossWpm,
+      accuracy: typing.accuracy,
+      completedWords: typing.completedWords,
+      errors: typing.errors
+    },
+    recording
+  };
+};
+
+// Replays run one at a time, a slice of ticks at a time, handing the event loop back to other requests in between
+const VERIFY_SLICE_TICKS = 2000;
+const MAX_QUEUED_VERIFICATIONS = 8; // Submissions beyond this are turned away rather than left waiting
+
+let verificationQueue: Promise<unknown> = Promise.resolve();
+let queuedVerifications = 0;
+
+const yieldToEventLoop = () => new Promise<void>(resolve => setImmediate(resolve));
+
+const replayInSlices = async (submission: RunSubmission): Promise<RunVerificationResult> => {
+  const verifier = createRunVerifier(submission.recording, submission);
+  let result = verifier.step(VERIFY_SLICE_TICKS);
+  while (!result) {
+    await yieldToEventLoop();
+    result = verifier.step(VERIFY_SLICE_TICKS);
+  }
+  return result;
+};
+
+/**
+ * Replay a submission and reject it with a 422 describing the divergence when it doesn't reproduce
+ * the claimed result. Returns the submission as the replay produced it, so every stored stat is verified.
+ */
+export const verifyRunSubmission = async (submission: RunSubmission): Promise<RunSubmission> => {
+  if (queuedVerifications >= MAX_QUEUED_VERIFICATIONS) {
+    throw createError({ statusCode: 503, statusMessage: 'Too many runs are being verified, try again shortly' });
+  }
+
+  queuedVerifications++;
+  const verification = verificationQueue.then(() => replayInSlices(submission));
+  verificationQueue = verification.catch(() => undefined);
+
+  let result: RunVerificationResult;
+  try {
+    result = await verification;
+  } finally {
+    queuedVerifications--;
+  }
+
+  if (!result.verified) {
+    throw createError({
+      statusCode: 422,
+      statusMessage: `Run verification failed: ${result.divergence.message}`,
+      data: { divergence: result.divergence }
+    });
+  }
+
+  const { simulation } = result;
+  return createRunSubmission(simulation.world, submission.recording, simulation.getGameTime());
+};
+
+/**
+ * Store a submitted run under a new id
+ */
+export const storeRun = async (submission: RunSubmission): Promise<StoredRun> => {
+  const run: StoredRun = {
+    ...submission,
+    id: crypto.randomUUID(),
+    submittedAt: Date.now()
+  };
+  await useStorage(RUNS_STORAGE).setItem(run.id, run);
+  return run;
+};
+
+/**
+ * Get a stored run by id
+ */
+export const getStoredRun = async (id: string): Promise<StoredRun | null> => {
+  if (!RUN_ID_PATTERN.test(id)) return null;
+  return await useStorage(RUNS_STORAGE).getItem<StoredRun>(id);
+};
+
+/**
+ * Get stored runs, optionally only one mode and one period, best first
+ */
+export const getRankedRuns = async (mode: RunMode | null, period: LeaderboardPeriod): Promise<StoredRun[]> => {
+  const storage = useStorage(RUNS_STORAGE);
+  const keys = await storage.getKeys();
+  const runs = await Promise.all(keys.map(key => storage.getItem<StoredRun>(key)));
+
+  const since = period === 'all' ? 0 : Date.now() - PERIOD_DURATIONS[period];
+  return runs
+    .filter((run): run is StoredRun => run !== null)
+    .filter(run => (mode === null || run.mode === mode) && run.submittedAt >= since)
+    .sort(compareRuns);
+};
+
+/**
+ * Read a query parameter that must be one of a set of values
+ */
+export const getQueryOption = <T extends string>(event: H3Event, name: string, options: T[], fallback: T | null): T | null => {
+  const value = getQuery(event)[name];
+  if (value === undefined) return fallback;
+  if (typeof value !== 'string' || !options.includes(value as T)) {
+    throw createError({ statusCode: 400, statusMessage: `Invalid ${name}: expected one of ${options.join(', ')}` });
+  }
+  return value as T;
+};
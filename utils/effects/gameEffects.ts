@@ -4,6 +4,8 @@
  */
 import type { Enemy } from '../gameModels';
 
+const HIT_DURABILITY_COST = 25; // Durability a projectile loses with every enemy it hits
+
 /**
  * Interface for a projectile
  */
@@ -33,6 +35,9 @@ export interface Projectile {
   // Durability system for bigger bullets
   durability: number;
   maxDurability: number;
+  // Position at the previous simulation step, used for render interpolation
+  prevX?: number;
+  prevY?: number;
 }
 
 /**
@@ -48,7 +53,7 @@ export interface Explosion {
   particles: {
     x: number;
     y: number;
-    vx: number;
+    vx: number; // Pixels per second
     vy: number;
     size: number;
     color: string;
@@ -102,15 +107,14 @@ export const createExplosion = (
   radius: number = 30,
   damage: number = 0,
   enemies: Enemy[] = [],
-  onDamageEnemy: (enemy: Enemy, damage: number, isCritical: boolean) => void,
-  player?: any // Optional player parameter to check for Nova Core
+  onDamageEnemy: (enemy: Enemy, damage: number, isCritical: boolean) => void
 ): Explosion => {
   const particleCount = 8;
   const particles = [];
 
   for (let i = 0; i < particleCount; i++) {
     const angle = (Math.PI * 2 / particleCount) * i;
-    const speed = 1 + Math.random() * 2;
+    const speed = 60 + Math.random() * 120; // Pixels per second
 
     particles.push({
       x,
@@ -124,13 +128,8 @@ export const createExplosion = (
 
   // Apply damage to nearby enemies if this explosion deals damage
   if (damage > 0 && enemies.length > 0) {
-    // Apply Nova Core effect if player has it
-    let actualExplosionDamage = damage;
-    if (player && player.hasNovaCore) {
-      actualExplosionDamage *= 2; // Double explosion damage
-    }
-
-    for (const enemy of enemies) {
+    // Iterate over a copy - enemies killed by the blast are removed from the list as it goes
+    for (const enemy of [...enemies]) {
       const dx = enemy.x - x;
       const dy = enemy.y - y;
       const distance = Math.sqrt(dx * dx + dy * dy);
@@ -138,7 +137,7 @@ export const createExplosion = (
       if (distance <= radius) {
         // Calculate damage with distance falloff
         const damageMultiplier = 1 - (distance / radius);
-        const finalDamage = actualExplosionDamage * damageMultiplier;
+        const finalDamage = damage * damageMultiplier;
 
         onDamageEnemy(enemy, finalDamage, false);
       }
@@ -218,9 +217,9 @@ export const createProjectile = (
     sizeDurability += kineticDurabilityBonus;
   }
 
-  // Check for Hades' Chains relic effect (add 50 durability for 2 more hits)
-  if (player && player.relics.some((relic: any) => relic.id === 'hades_chains')) {
-    sizeDurability += 50; // Add durability for 2 more hits
+  // Every extra pierce is worth one more hit
+  if (player && player.extraPierces) {
+    sizeDurability += player.extraPierces * HIT_DURABILITY_COST;
   }
 
   return {
@@ -295,9 +294,9 @@ export const updateExplosions = (explosions: Explosion[], deltaTime: number): vo
       // Update particles - only update particles that are still visible
       for (let j = explosion.particles.length - 1; j >= 0; j--) {
         const particle = explosion.particles[j];
-        particle.x += particle.vx * deltaTime * 60;
-        particle.y += particle.vy * deltaTime * 60;
-        particle.size *= 0.95; // Shrink particles over time
+        particle.x += particle.vx * deltaTime;
+        particle.y += particle.vy * deltaTime;
+        particle.size *= Math.pow(0.95, deltaTime * 60); // Shrink particles over time (5% per 1/60s)
 
         // Remove particles that are too small or far from explosion center
         if (particle.size < 0.5 ||
@@ -459,7 +458,7 @@ export const updateProjectiles = (
         );
 
         // Reduce durability based on hit
-        projectile.durability -= 25; // Each hit reduces durability
+        projectile.durability -= HIT_DURABILITY_COST;
 
         // Create AOE explosion if needed
         if (projectile.aoeRadius > 0) {
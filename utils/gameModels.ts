@@ -1,4 +1,83 @@
 import { getRandomColor } from '../utils/wordGenerator';
+import type { RandomSource } from './mechanics/simulationCore';
+
+/**
+ * Progress of a scripted boss through its encounter
+ */
+export interface BossState {
+  definitionId: string;
+  phaseIndex: number;
+  wordIndex: number; // Word of the phase's phrase being typed
+  wordShownAt: number; // Simulation time the current word appeared
+  isScrambled: boolean; // The current word's letters have been shuffled
+  speedBurstUntil: number | null; // Simulation time the current charge ends
+}
+
+/**
+ * Ways an enemy can close in on the player
+ */
+export type MovementBehavior = 'direct' | 'zigzag' | 'spiral' | 'dash' | 'blink' | 'flank';
+
+export const MOVEMENT_BEHAVIORS: MovementBehavior[] = ['direct', 'zigzag', 'spiral', 'dash', 'blink', 'flank'];
+
+/**
+ * Movement behaviour of an enemy and the state it needs between steps
+ */
+export interface EnemyMovement {
+  behavior: MovementBehavior;
+  elapsed: number; // Seconds the behaviour has been running, drives the zigzag swing
+  direction: 1 | -1; // Which way zigzags swing first and orbits turn
+  nextChangeAt: number | null; // Simulation time of the next dash/pause switch or blink
+  isDashing: boolean;
+  flankAngle: number; // Flankers aim beside the player at this angle from its rotation
+}
+
+/**
+ * Ranged attack of an enemy that holds its distance and fires missiles
+ */
+export interface RangedAttack {
+  standoffRadius: number; // Stops this far from the player
+  fireInterval: number; // Milliseconds between missiles
+  nextFireAt: number; // Simulation time of the next missile
+}
+
+/**
+ * Support enemies empower the enemies around them instead of attacking
+ */
+export type SupportRole = 'healer' | 'warder' | 'hastener';
+
+/**
+ * Support aura of an enemy
+ */
+export interface SupportAura {
+  role: SupportRole;
+  nextPulseAt: number; // Simulation time of the next heal or ward pulse
+}
+
+/**
+ * Ways a stealth enemy obscures its word: uncovering it letter by letter, flickering it or scrambling it
+ */
+export type StealthMode = 'reveal' | 'flicker' | 'scramble';
+
+/**
+ * Stealth of an enemy whose word stays obscured until it gets close to the player
+ */
+export interface EnemyStealth {
+  mode: StealthMode;
+  revealRadius: number; // The whole word shows within this distance of the player
+  startDistance: number; // Distance from the player at spawn, where revealing starts
+  displayWord: string; // The obscured word shown this step - typing still matches the real word
+}
+
+/**
+ * Random modifiers an elite enemy can roll
+ */
+export type EliteAffix = 'swift' | 'vampiric' | 'reflective' | 'splitting' | 'explosive' | 'mirrored';
+
+/**
+ * Enemy types with special mechanics
+ */
+export type EnemyType = 'normal' | 'blue' | 'purple' | 'splitter';
 
 export interface Enemy {
   id: number;
@@ -20,7 +99,19 @@ export interface Enemy {
   wave: number;
   shape: string;
   // Enemy type system for special mechanics
-  enemyType: 'normal' | 'blue' | 'purple';
+  enemyType: EnemyType;
+  splitParts?: string[]; // Words of the children a splitter breaks into on death
+  isSplitChild?: boolean; // Spawned by a splitter, so it doesn't count towards the wave on its own
+  shieldWord?: string | null; // Armor: blocks all damage until this word is typed, then the main word can be typed
+  boss?: BossState; // Scripted boss encounter, only hurt by typing its phrases
+  movement?: EnemyMovement; // Homes straight in on the player when not set
+  ranged?: RangedAttack; // Holds back and fires missiles instead of ramming the player
+  support?: SupportAura; // Heals, wards or hastens the enemies around it
+  wardedUntil?: number | null; // Simulation time a warder's protection runs out
+  isHasted?: boolean; // Inside a hastener's aura this step
+  stealth?: EnemyStealth; // Shows an obscured word until it closes in
+  affixes?: EliteAffix[]; // Elite modifiers, labelled under the word
+  affixPower?: number; // How strongly the affixes act, grows with the wave
   // Frozen effect properties
   isFrozen: boolean;
   frozenUntil: number | null;
@@ -36,6 +127,30 @@ export interface Enemy {
   typedProgress: number; // Number of characters typed correctly
   wrongTypingFlash: number; // Flash effect when wrong typing occurs (0-1)
   spawnSide: 'top' | 'right' | 'bottom' | 'left'; // Which side the enemy spawned from
+  spawnTime?: number; // Simulation time the enemy spawned
+  // Position at the previous simulation step, used for render interpolation
+  prevX?: number;
+  prevY?: number;
+}
+
+/**
+ * A missile fired at the player by a ranged enemy - typing its word intercepts it
+ */
+export interface Missile {
+  id: number;
+  x: number;
+  y: number;
+  word: string;
+  velocityX: number; // Pixels per second
+  velocityY: number;
+  radius: number;
+  damage: number; // Shield damage when it hits the player
+  sourceEnemyId: number;
+  // Typing highlight properties
+  typedProgress: number; // Number of characters typed correctly (0-1 ratio)
+  // Position at the previous simulation step, used for render interpolation
+  prevX?: number;
+  prevY?: number;
 }
 
 export interface Player {
@@ -82,9 +197,18 @@ export interface Player {
   damageMultiplier: number;  // Multiplier for all damage
   shieldEfficiency: number;  // Multiplier for shield effectiveness
   experienceMultiplier: number; // Multiplier for XP gained
-  // Special relic effects
-  hasTimeDistortion?: boolean; // Time Distortion relic effect
-  hasNovaCore?: boolean; // Nova Core relic effect
+  activeSkillRechargeRate: number; // Multiplier for how fast active skill cooldowns count down
+  extraPierces: number; // Additional enemies every projectile can pass through
+  skillTriggerMultiplier: number; // Multiplier for the kills that kill-based skills need
+  enemySpeedMultiplier: number; // Multiplier for how fast enemies move
+  explosionDamageMultiplier: number;
+  baseStats: Record<ModifiableStat, number>; // The player's own stats, before relic and synergy modifiers
+  // Level-up offer economy
+  rerollCharges: number; // Fresh draws of the skills on offer
+  banishCharges: number; // Skills that can be removed from offers for the rest of the run
+  banishedSkillIds: string[];
+  synergyIds: string[]; // Synergies discovered this run, in the order they activated
+  activatedSynergyIds: string[]; // Every synergy that has been active this run, even if it was lost again
   // Kinetic mastery tracking
   kineticMasteryLevel: number; // Track kinetic mastery level for damage calculation
 }
@@ -100,13 +224,35 @@ export interface GameState {
   waveEnemyCount: number;
   waveEnemiesDefeated: number;
   availableSkills: Skill[];
+  activeSkills: ActiveSkill[]; // Every active skill, usable once the player reaches its unlock level
   score: number; // Track player's total score
   // Relic system
   relicStars: RelicStar[];  // Flying stars containing relics
+  missiles: Missile[]; // Incoming missiles fired by ranged enemies
   // Game timer and stats
   startTime: number; // When the game started
   enemiesKilled: number; // Total enemies killed
   gameWon: boolean; // Whether player won by surviving 20 minutes
+  // Deterministic simulation
+  seed: number; // Seed the run's random source was created from
+  nextEntityId: number; // Counter for enemy, relic star and missile IDs
+  spawnTimelineStart: number; // Simulation time the current pass through the wave's timeline started
+  nextTimelineEntry: number; // Index of the next formation due in the wave's timeline
+  waveStartErrors: number; // Typing errors made before the current wave started, to spot perfect waves
+  waveStartCompletedWords: number; // Words completed before the current wave started, so idle waves aren't perfect
+}
+
+/**
+ * Branches of the skill tree
+ */
+export type SkillBranch = 'kinetic' | 'elemental' | 'fortress' | 'scholar';
+
+/**
+ * Interface for a skill level another skill needs before it can be offered
+ */
+export interface SkillRequirement {
+  id: string;
+  level: number;
 }
 
 export interface Skill {
@@ -116,19 +262,46 @@ export interface Skill {
   icon: string;
   level: number;
   maxLevel: number;
-  applyEffect: (player: Player) => void;
+  branch: SkillBranch;
+  tier: number; // Row of the skill in its branch, 0 for the roots
+  requires?: SkillRequirement[]; // All of them must be met before the skill is offered
+  excludes?: string[]; // Taking any of these closes the skill off - listed on both sides
+  isCapstone?: boolean;
+  applyEffect: (player: Player) => void; // Changes the player's base stats, resolved with relic modifiers afterwards
+}
+
+/**
+ * Where a skill stands in the tree for the current run
+ */
+export type SkillStatus = 'available' | 'maxed' | 'locked' | 'excluded';
+
+/**
+ * Interface for what an active skill's effect can do beyond changing the game state
+ */
+export interface ActiveSkillEffects {
+  now: number; // Simulation time the effect happens at
+  // Damage goes through armor, wards and bosses like any other hit
+  createExplosion: (x: number, y: number, color: string, radius: number, damage: number) => void;
 }
 
+/**
+ * An ability the player triggers by typing its command word, then waits out its cooldown
+ */
 export interface ActiveSkill {
   id: string;
   name: string;
-  cooldown: number;
-  duration: number;
-  currentCooldown: number;
+  description: string;
+  icon: string;
+  color: string;
+  word: string; // Command word that triggers it, never given to enemies
+  unlockLevel: number; // Player level it becomes available at
+  cooldown: number; // Milliseconds
+  duration: number; // Milliseconds the effect lasts, 0 for instant effects
+  currentCooldown: number; // Milliseconds until it can be used again
   isActive: boolean;
   startTime: number | null;
-  applyEffect: (gameState: GameState) => void;
-  removeEffect: (gameState: GameState) => void;
+  applyEffect: (gameState: GameState, effects: ActiveSkillEffects) => void;
+  removeEffect: (gameState: GameState, effects: ActiveSkillEffects) => void;
 }
 
 export const createEnemy = (
@@ -141,10 +314,13 @@ export const createEnemy = (
   canvasWidth: number,
   canvasHeight: number,
   wave: number,
+  baseHealth: number, // From the wave set's health curve
   isElite: boolean = false,
   isBoss: boolean = false,
-  spawnSide: 'top' | 'right' | 'bottom' | 'left' = 'top',
-  player?: Player // Add optional player parameter for skill-based spawn rates
+  spawnSide: 'top' | 'right' | 'bottom' | 'left',
+  player: Player, // Player stats drive skill-based spawn rates
+  rng: RandomSource,
+  splitParts: string[] | null = null // Makes the enemy a splitter breaking into these words
 ): Enemy => {
   // Always target the exact center of the canvas
   const centerX = canvasWidth / 2;
@@ -163,23 +339,6 @@ export const createEnemy = (
   const velocityX = normalizedDirectionX * speed;
   const velocityY = normalizedDirectionY * speed;
 
-  // Calculate health based on wave and enemy type
-  // Improved scaling: more reasonable growth that allows for skill synergies
-  // Formula: Base health grows more gradually but with exponential elements for challenge
-  let baseHealth: number;
-  if (wave === 1) {
-    baseHealth = 10; // First wave enemies die in one hit
-  } else if (wave <= 5) {
-    baseHealth = 10 + (wave - 1) * 8; // Waves 2-5: 18, 26, 34, 42
-  } else if (wave <= 10) {
-    baseHealth = 42 + (wave - 5) * 12; // Waves 6-10: 54, 66, 78, 90, 102
-  } else if (wave <= 20) {
-    baseHealth = 102 + (wave - 10) * 15; // Waves 11-20: 117, 132, ..., 252
-  } else {
-    // Late game: slower growth to allow skill synergies to matter
-    baseHealth = 252 + (wave - 20) * 18;
-  }
-
   let health = baseHealth;
   let pointValue = Math.floor(10 + (wave * 1.5) + (baseHealth / 10));
 
@@ -199,26 +358,28 @@ export const createEnemy = (
     shape = 'octagon';
   }
 
+  if (splitParts) {
+    shape = 'splitter';
+  }
+
   // Determine enemy type for special mechanics (only for normal enemies, not elites/bosses)
-  let enemyType: 'normal' | 'blue' | 'purple' = 'normal';
-  if (!isElite && !isBoss) {
-    const typeRandom = Math.random();
+  let enemyType: EnemyType = splitParts ? 'splitter' : 'normal';
+  if (!isElite && !isBoss && !splitParts) {
+    const typeRandom = rng.next();
 
     // Base spawn rates
     let baseBlueChance = 0.2; // Base 20% blue chance
     let basePurpleChance = 0.15; // Base 15% purple chance
 
     // Skill-based spawn rate improvements
-    if (player) {
-      // Each level of bouncing skill increases blue enemy spawn rate by 8%
-      const bounceBonus = player.bounceCount * 0.08;
-      baseBlueChance += bounceBonus;
-
-      // Each level of multi-shot skill increases purple enemy spawn rate by 6%
-      const multishotLevels = Math.max(0, player.multiShotTargets - 2); // Base is 2, so subtract 2
-      const multishotBonus = multishotLevels * 0.06;
-      basePurpleChance += multishotBonus;
-    }
+    // Each level of bouncing skill increases blue enemy spawn rate by 8%
+    const bounceBonus = player.bounceCount * 0.08;
+    baseBlueChance += bounceBonus;
+
+    // Each level of multi-shot skill increases purple enemy spawn rate by 6%
+    const multishotLevels = Math.max(0, player.multiShotTargets - 2); // Base is 2, so subtract 2
+    const multishotBonus = multishotLevels * 0.06;
+    basePurpleChance += multishotBonus;
 
     // Add wave progression bonus (max +15% total for special enemies by wave 20)
     const waveBonus = Math.min(wave - 1, 20) * 0.0075; // 0.75% per wave, cap at wave 20
@@ -239,6 +400,8 @@ export const createEnemy = (
     color = '#4A90E2'; // Blue for bouncing enemies
   } else if (enemyType === 'purple') {
     color = '#8B5CF6'; // Purple for multi-shot enemies
+  } else if (enemyType === 'splitter') {
+    color = '#1ABC9C'; // Teal for splitters
   } else if (color === getRandomColor()) {
     // Only modify random colors for normal enemies, not special colors for bosses/elites
     if (health <= 10) {
@@ -266,7 +429,7 @@ export const createEnemy = (
     velocityY,
     speed,
     glowColor,
-    pulsePhase: Math.random() * Math.PI * 2, // Random starting phase for pulsing effect
+    pulsePhase: rng.next() * Math.PI * 2, // Random starting phase for pulsing effect
     health,
     maxHealth: health,
     isElite,
@@ -275,6 +438,7 @@ export const createEnemy = (
     wave,
     shape, // Add shape property to enemy
     enemyType,
+    splitParts: splitParts ? [...splitParts] : undefined,
     isFrozen: false,
     frozenUntil: null,
     originalSpeed: speed,
@@ -291,7 +455,7 @@ export const createEnemy = (
 };
 
 export const createPlayer = (x: number, y: number): Player => {
-  return {
+  const player: Player = {
     x,
     y,
     radius: 30,
@@ -333,11 +497,35 @@ export const createPlayer = (x: number, y: number): Player => {
     damageMultiplier: 1,
     shieldEfficiency: 1,
     experienceMultiplier: 1,
+    activeSkillRechargeRate: 1,
+    extraPierces: 0,
+    skillTriggerMultiplier: 1,
+    enemySpeedMultiplier: 1,
+    explosionDamageMultiplier: 1,
+    baseStats: {} as Record<ModifiableStat, number>,
+    rerollCharges: 1,
+    banishCharges: 1,
+    banishedSkillIds: [],
+    synergyIds: [],
+    activatedSynergyIds: [],
     kineticMasteryLevel: 0,
   };
+
+  // The player's own stats start out as the stats above
+  for (const stat of Object.keys(MODIFIABLE_STATS) as ModifiableStat[]) {
+    player.baseStats[stat] = player[stat];
+  }
+  return player;
+};
+
+/**
+ * Kills a kill-based skill needs before it triggers, after trigger reductions
+ */
+export const getKillsRequired = (player: Player, killsRequired: number): number => {
+  return Math.max(1, Math.round(killsRequired * player.skillTriggerMultiplier));
 };
 
-export const createInitialGameState = (canvasWidth: number, canvasHeight: number): GameState => {
+export const createInitialGameState = (canvasWidth: number, canvasHeight: number, seed: number = 0): GameState => {
   return {
     isPlaying: false,
     isGameOver: false,
@@ -349,13 +537,22 @@ export const createInitialGameState = (canvasWidth: number, canvasHeight: number
     waveEnemyCount: 0,
     waveEnemiesDefeated: 0,
     availableSkills: generateSkills(),
+    activeSkills: generateActiveSkills(),
     score: 0,
     // Relic system
     relicStars: [],
+    missiles: [],
     // Game timer and stats
     startTime: 0,
     enemiesKilled: 0,
     gameWon: false,
+    // Deterministic simulation
+    seed,
+    nextEntityId: 1,
+    spawnTimelineStart: 0,
+    nextTimelineEntry: 0,
+    waveStartErrors: 0,
+    waveStartCompletedWords: 0,
   };
 };
 
@@ -369,11 +566,13 @@ export const generateSkills = (): Skill[] => {
       icon: '💪',
       level: 0,
       maxLevel: 7,
+      branch: 'kinetic',
+      tier: 0,
       applyEffect: (player: Player) => {
         if (player.level <= 3) {
-          player.damage += 8; // Early levels get flat damage
+          player.baseStats.damage += 8; // Early levels get flat damage
         } else {
-          player.damageMultiplier += 0.15; // Later levels get multiplier
+          player.baseStats.damageMultiplier += 0.15; // Later levels get multiplier
         }
       }
     },
@@ -384,11 +583,13 @@ export const generateSkills = (): Skill[] => {
       icon: '🎯',
       level: 0,
       maxLevel: 6,
+      branch: 'kinetic',
+      tier: 0,
       applyEffect: (player: Player) => {
         if (player.level <= 3) {
-          player.critChance += 0.08;
+          player.baseStats.critChance += 0.08;
         } else {
-          player.critMultiplier += 0.3;
+          player.baseStats.critMultiplier += 0.3;
         }
       }
     },
@@ -399,8 +600,11 @@ export const generateSkills = (): Skill[] => {
       icon: '🔱',
       level: 0,
       maxLevel: 5,
+      branch: 'kinetic',
+      tier: 1,
+      requires: [{ id: 'crit', level: 1 }],
       applyEffect: (player: Player) => {
-        player.multiShotTargets = Math.min(player.multiShotTargets + 1, 5);
+        player.baseStats.multiShotTargets = Math.min(player.baseStats.multiShotTargets + 1, 5);
       }
     },
     {
@@ -410,12 +614,13 @@ export const generateSkills = (): Skill[] => {
       icon: '🛡️',
       level: 0,
       maxLevel: 6,
+      branch: 'fortress',
+      tier: 0,
       applyEffect: (player: Player) => {
         if (player.level <= 2) {
-          player.maxShield += 40;
-          player.shield = Math.min(player.shield + 40, player.maxShield);
+          player.baseStats.maxShield += 40; // Resolving the stats charges the extra capacity
         } else {
-          player.shieldEfficiency += 0.25;
+          player.baseStats.shieldEfficiency += 0.25;
         }
       }
     },
@@ -426,11 +631,14 @@ export const generateSkills = (): Skill[] => {
       icon: '♻️',
       level: 0,
       maxLevel: 5,
+      branch: 'fortress',
+      tier: 1,
+      requires: [{ id: 'fortification', level: 1 }],
       applyEffect: (player: Player) => {
         if (player.level <= 2) {
-          player.shieldRegenRate += 2;
+          player.baseStats.shieldRegenRate += 2;
         } else {
-          player.shieldRegenRate = Math.floor(player.shieldRegenRate * 1.5);
+          player.baseStats.shieldRegenRate = Math.floor(player.baseStats.shieldRegenRate * 1.5);
         }
       }
     },
@@ -441,17 +649,20 @@ export const generateSkills = (): Skill[] => {
       icon: '⚡',
       level: 0,
       maxLevel: 6,
+      branch: 'kinetic',
+      tier: 1,
+      requires: [{ id: 'damage', level: 1 }],
       applyEffect: (player: Player) => {
         player.kineticMasteryLevel += 1; // Track the skill level
 
         if (player.kineticMasteryLevel === 1) {
           // First level - significant initial boost
-          player.projectileSpeed += 0.5; // 50% speed increase (base is 1.0)
-          player.damageMultiplier += 0.15; // 15% damage increase
+          player.baseStats.projectileSpeed += 0.5; // 50% speed increase (base is 1.0)
+          player.baseStats.damageMultiplier += 0.15; // 15% damage increase
         } else {
           // Subsequent levels - smaller speed increases but more damage
-          player.projectileSpeed += 0.25; // 25% speed increase per level
-          player.damageMultiplier += 0.1; // 10% damage increase per level
+          player.baseStats.projectileSpeed += 0.25; // 25% speed increase per level
+          player.baseStats.damageMultiplier += 0.1; // 10% damage increase per level
         }
       }
     },
@@ -462,18 +673,20 @@ export const generateSkills = (): Skill[] => {
       icon: '🏹',
       level: 0,
       maxLevel: 6,
+      branch: 'elemental',
+      tier: 0,
       applyEffect: (player: Player) => {
         if (player.frostMasteryLevel === 0) {
           // First level - initialize frost system
           player.frostMasteryLevel = 1;
           player.frostMasteryKillsRequired = 20;
-          player.frozenBulletCount = 8;
+          player.baseStats.frozenBulletCount = 8;
           player.frostMasteryKills = 0;
         } else {
           // Subsequent levels - reduce kills required and increase bullet count
           player.frostMasteryLevel++;
           player.frostMasteryKillsRequired = Math.max(5, player.frostMasteryKillsRequired - 5);
-          player.frozenBulletCount += 2;
+          player.baseStats.frozenBulletCount += 2;
         }
       }
     },
@@ -484,6 +697,8 @@ export const generateSkills = (): Skill[] => {
       icon: '☄️',
       level: 0,
       maxLevel: 6,
+      branch: 'elemental',
+      tier: 0,
       applyEffect: (player: Player) => {
         if (player.fireMasteryLevel === 0) {
           // First level - initialize fire system
@@ -504,10 +719,13 @@ export const generateSkills = (): Skill[] => {
       icon: '↩️',
       level: 0,
       maxLevel: 4,
+      branch: 'kinetic',
+      tier: 2,
+      requires: [{ id: 'rapid_fire', level: 1 }],
       applyEffect: (player: Player) => {
         // Always increase both bounce count and range since player starts with 1 bounce
-        player.bounceCount += 1;
-        player.bounceRange += 20;
+        player.baseStats.bounceCount += 1;
+        player.baseStats.bounceRange += 20;
       }
     },
     {
@@ -517,15 +735,18 @@ export const generateSkills = (): Skill[] => {
       icon: '⚫',
       level: 0,
       maxLevel: 5,
+      branch: 'kinetic',
+      tier: 2,
+      requires: [{ id: 'velocity', level: 1 }],
       applyEffect: (player: Player) => {
         // Better stacking: use percentage of current size with diminishing returns
-        const currentSize = player.projectileSize;
+        const currentSize = player.baseStats.projectileSize;
         const baseIncrease = 0.4; // 40% increase
         const sizeRatio = currentSize / 4; // 4 is base size
         const diminishingFactor = 1 / (1 + sizeRatio * 0.3); // Diminishing returns
         const actualIncrease = baseIncrease * diminishingFactor;
-        player.projectileSize = Math.min(player.projectileSize * (1 + actualIncrease), 20); // Hard cap at 20
-        player.damageMultiplier += 0.15;
+        player.baseStats.projectileSize = Math.min(player.baseStats.projectileSize * (1 + actualIncrease), 20); // Hard cap at 20
+        player.baseStats.damageMultiplier += 0.15;
       }
     },
     {
@@ -535,14 +756,98 @@ export const generateSkills = (): Skill[] => {
       icon: '📚',
       level: 0,
       maxLevel: 5,
+      branch: 'scholar',
+      tier: 0,
       applyEffect: (player: Player) => {
         if (player.level <= 2) {
-          player.experienceMultiplier += 0.3;
+          player.baseStats.experienceMultiplier += 0.3;
         } else {
-          player.experienceMultiplier += 0.25;
+          player.baseStats.experienceMultiplier += 0.25;
         }
       }
     },
+
+    // Capstones finish a branch - Permafrost and Inferno are rival specialisations, only one can be taken
+    {
+      id: 'overcharge',
+      name: 'Overcharge',
+      description: 'Capstone: +10% crit chance and +0.5x crit multiplier',
+      icon: '🔋',
+      level: 0,
+      maxLevel: 1,
+      branch: 'kinetic',
+      tier: 3,
+      requires: [{ id: 'velocity', level: 2 }, { id: 'heavy_rounds', level: 2 }],
+      isCapstone: true,
+      applyEffect: (player: Player) => {
+        player.baseStats.critChance += 0.1;
+        player.baseStats.critMultiplier += 0.5;
+      }
+    },
+    {
+      id: 'permafrost',
+      name: 'Permafrost',
+      description: 'Frost capstone: Arctic Barrage needs 5 fewer kills and fires 4 more arrows. Closes off Inferno',
+      icon: '🧊',
+      level: 0,
+      maxLevel: 1,
+      branch: 'elemental',
+      tier: 1,
+      requires: [{ id: 'frost_mastery', level: 3 }],
+      excludes: ['inferno'],
+      isCapstone: true,
+      applyEffect: (player: Player) => {
+        player.frostMasteryKillsRequired = Math.max(5, player.frostMasteryKillsRequired - 5);
+        player.baseStats.frozenBulletCount += 4;
+      }
+    },
+    {
+      id: 'inferno',
+      name: 'Inferno',
+      description: 'Fire capstone: Meteor Storm needs 10 fewer kills. Closes off Permafrost',
+      icon: '🌋',
+      level: 0,
+      maxLevel: 1,
+      branch: 'elemental',
+      tier: 1,
+      requires: [{ id: 'fire_mastery', level: 3 }],
+      excludes: ['permafrost'],
+      isCapstone: true,
+      applyEffect: (player: Player) => {
+        player.fireMasteryKillsRequired = Math.max(20, player.fireMasteryKillsRequired - 10);
+      }
+    },
+    {
+      id: 'bastion',
+      name: 'Bastion',
+      description: 'Capstone: +100 max shield and +3 regen rate',
+      icon: '🏰',
+      level: 0,
+      maxLevel: 1,
+      branch: 'fortress',
+      tier: 2,
+      requires: [{ id: 'fortification', level: 2 }, { id: 'regeneration', level: 2 }],
+      isCapstone: true,
+      applyEffect: (player: Player) => {
+        player.baseStats.maxShield += 100; // Resolving the stats charges the extra capacity
+        player.baseStats.shieldRegenRate += 3;
+      }
+    },
+    {
+      id: 'sage',
+      name: 'Sage',
+      description: 'Capstone: active skills recharge 30% faster',
+      icon: '🔮',
+      level: 0,
+      maxLevel: 1,
+      branch: 'scholar',
+      tier: 1,
+      requires: [{ id: 'scholar', level: 2 }],
+      isCapstone: true,
+      applyEffect: (player: Player) => {
+        player.baseStats.activeSkillRechargeRate += 0.3;
+      }
+    },
   ];
 };
 
@@ -565,53 +870,428 @@ const lightenColor = (color: string, amount: number): string => {
   return `#${Math.round(newR).toString(16).padStart(2, '0')}${Math.round(newG).toString(16).padStart(2, '0')}${Math.round(newB).toString(16).padStart(2, '0')}`;
 };
 
-// Get random skills for level up
-export const getRandomSkills = (skills: Skill[], count: number = 3): Skill[] => {
-  // Filter out skills that are already at max level
-  const availableSkills = skills.filter(skill => skill.level < skill.maxLevel);
+/**
+ * Branches of the skill tree, in display order
+ */
+export const SKILL_BRANCHES: Record<SkillBranch, { name: string; color: string }> = {
+  kinetic: { name: 'Kinetic', color: '#e67e22' },
+  elemental: { name: 'Elemental', color: '#00bcd4' },
+  fortress: { name: 'Fortress', color: '#3498db' },
+  scholar: { name: 'Scholar', color: '#9b59b6' }
+};
+
+export const SKILL_BRANCH_IDS = Object.keys(SKILL_BRANCHES) as SkillBranch[];
+
+/**
+ * Where a skill stands given the levels of every skill in the run
+ */
+export const getSkillStatus = (skill: Skill, skills: Skill[]): SkillStatus => {
+  const getLevel = (id: string) => skills.find(other => other.id === id)?.level ?? 0;
+
+  if (skill.level >= skill.maxLevel) return 'maxed';
+  if (skill.excludes?.some(id => getLevel(id) > 0)) return 'excluded';
+  if (skill.requires?.some(requirement => getLevel(requirement.id) < requirement.level)) return 'locked';
+  return 'available';
+};
+
+// Get random skills for level up, leaving out the excluded ones (banished or already on offer)
+export const getRandomSkills = (skills: Skill[], rng: RandomSource, excludedSkillIds: string[] = [], count: number = 3): Skill[] => {
+  // Only skills below their max level whose prerequisites are met and that no rival has closed off
+  const availableSkills = skills.filter(skill =>
+    getSkillStatus(skill, skills) === 'available' && !excludedSkillIds.includes(skill.id)
+  );
 
   // If we have fewer available skills than requested, return all available
   if (availableSkills.length <= count) {
     return availableSkills;
   }
 
-  // Shuffle and pick random skills
-  const shuffled = [...availableSkills].sort(() => 0.5 - Math.random());
+  // Fisher-Yates shuffle so the result only depends on the random source
+  const shuffled = [...availableSkills];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(rng.next() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
   return shuffled.slice(0, count);
 };
 
 /**
- * Wave configuration
+ * What the player takes instead of a skill when skipping a level-up
+ */
+export type LevelUpSkipReward = 'shield' | 'xp';
+
+export const SKIP_SHIELD_BONUS = 20; // Max shield gained by skipping for shield
+export const SKIP_XP_FRACTION = 0.5; // Share of the next level's XP gained by skipping for XP
+
+// Generate all active skills, in unlock order
+export const generateActiveSkills = (): ActiveSkill[] => {
+  return [
+    {
+      id: 'nova',
+      name: 'Nova',
+      description: 'A blast around the planet dealing up to 3x damage, strongest up close',
+      icon: '💥',
+      color: '#ff9f43',
+      word: 'nova',
+      unlockLevel: 3,
+      cooldown: 20000,
+      duration: 0,
+      currentCooldown: 0,
+      isActive: false,
+      startTime: null,
+      applyEffect: (gameState: GameState, effects: ActiveSkillEffects) => {
+        const { player } = gameState;
+        effects.createExplosion(player.x, player.y, '#ff9f43', 250, player.damage * player.damageMultiplier * 3);
+      },
+      removeEffect: () => {}
+    },
+    {
+      id: 'freeze',
+      name: 'Deep Freeze',
+      description: 'Stops every enemy on screen in its tracks for 4 seconds (bosses resist)',
+      icon: '🧊',
+      color: '#74b9ff',
+      word: 'freeze',
+      unlockLevel: 5,
+      cooldown: 30000,
+      duration: 4000,
+      currentCooldown: 0,
+      isActive: false,
+      startTime: null,
+      applyEffect: (gameState: GameState, effects: ActiveSkillEffects) => {
+        for (const enemy of gameState.enemies) {
+          if (enemy.boss) continue;
+
+          // Frozen enemies thaw on their own once frozenUntil passes
+          enemy.isFrozen = true;
+          enemy.frozenUntil = effects.now + 4000;
+          enemy.speed = 0;
+          if (!enemy.color.includes('88')) {
+            enemy.color = enemy.color + '88';
+          }
+        }
+      },
+      removeEffect: () => {}
+    },
+    {
+      id: 'heal',
+      name: 'Restore',
+      description: 'Instantly restores 40% of the shield',
+      icon: '💚',
+      color: '#2ecc71',
+      word: 'heal',
+      unlockLevel: 7,
+      cooldown: 45000,
+      duration: 0,
+      currentCooldown: 0,
+      isActive: false,
+      startTime: null,
+      applyEffect: (gameState: GameState) => {
+        const { player } = gameState;
+        player.shield = Math.min(player.maxShield, player.shield + player.maxShield * 0.4);
+      },
+      removeEffect: () => {}
+    },
+    {
+      id: 'surge',
+      name: 'Power Surge',
+      description: '+50% damage multiplier for 8 seconds',
+      icon: '⚡',
+      color: '#f1c40f',
+      word: 'surge',
+      unlockLevel: 10,
+      cooldown: 40000,
+      duration: 8000,
+      currentCooldown: 0,
+      isActive: false,
+      startTime: null,
+      applyEffect: (gameState: GameState) => {
+        gameState.player.baseStats.damageMultiplier += 0.5;
+      },
+      removeEffect: (gameState: GameState) => {
+        gameState.player.baseStats.damageMultiplier -= 0.5;
+      }
+    },
+  ];
+};
+
+/**
+ * Command words of every active skill - enemy, shield and missile words never clash with them
  */
-interface WaveConfig {
-  enemyCount: number;
-  spawnInterval: number;
-  eliteChance: number;
-  bossChance: number;
+export const COMMAND_WORDS = generateActiveSkills().map(skill => skill.word);
+
+/**
+ * Whether the player has reached an active skill's unlock level
+ */
+export const isActiveSkillUnlocked = (skill: ActiveSkill, player: Player): boolean => {
+  return player.level >= skill.unlockLevel;
+};
+
+/**
+ * Enemy formations a wave's timeline can send in
+ */
+export type FormationShape = 'single' | 'line' | 'wedge' | 'column' | 'ring';
+
+/**
+ * Layout of a formation
+ */
+export interface FormationDefinition {
+  size: number; // Enemies in the formation
+  spacing: number; // Pixels between neighbouring members
+}
+
+export const FORMATIONS: Record<FormationShape, FormationDefinition> = {
+  single: { size: 1, spacing: 0 },
+  line: { size: 4, spacing: 90 }, // Side by side along an edge
+  wedge: { size: 5, spacing: 70 }, // A V with its point towards the player
+  column: { size: 6, spacing: 75 }, // Two staggered files, arriving one after another
+  ring: { size: 8, spacing: 0 } // Evenly around the player, closing in from all sides
+};
+
+/**
+ * A formation sent in at a point in a wave's timeline
+ */
+export interface WaveTimelineEntry {
+  at: number; // Milliseconds after the timeline starts
+  formation: FormationShape;
 }
 
 /**
- * Get wave configuration
+ * What a support role does to the enemies within its radius
  */
-export const getWaveConfiguration = (wave: number): WaveConfig => {
-  const baseEnemyCount = 5;
-  const enemyCount = baseEnemyCount + Math.floor(wave * 1.5);
-  const spawnInterval = Math.max(500, 2000 - (wave * 100));
+export interface SupportRoleDefinition {
+  radius: number;
+  pulseInterval: number; // Milliseconds between pulses (hasteners work continuously)
+  color: string; // Aura color
+}
 
-  // Elite chance increases gradually
-  const eliteChance = Math.min(0.1 + (wave * 0.05), 0.4); // Cap at 40% chance
+export const SUPPORT_ROLES: Record<SupportRole, SupportRoleDefinition> = {
+  healer: { radius: 160, pulseInterval: 3000, color: '#2ecc71' },
+  warder: { radius: 140, pulseInterval: 5000, color: '#f1c40f' },
+  hastener: { radius: 180, pulseInterval: 0, color: '#e74c3c' }
+};
 
-  // Boss chance increases more slowly
-  const bossChance = Math.min(0.02 + (wave * 0.02), 0.15); // Cap at 15% chance
+export const SUPPORT_ROLE_IDS = Object.keys(SUPPORT_ROLES) as SupportRole[];
 
-  return {
-    enemyCount,
-    spawnInterval,
-    eliteChance,
-    bossChance
-  };
+export const HEAL_FRACTION = 0.2; // Share of max health a heal pulse restores
+export const WARD_DURATION = 2500; // Milliseconds a ward pulse protects for
+export const HASTE_SPEED_MULTIPLIER = 1.6;
+
+export const STEALTH_MODES: StealthMode[] = ['reveal', 'flicker', 'scramble'];
+
+/**
+ * How an elite affix is labelled
+ */
+export interface EliteAffixDefinition {
+  label: string; // Shown under the enemy's word
+  color: string;
+}
+
+export const ELITE_AFFIXES: Record<EliteAffix, EliteAffixDefinition> = {
+  swift: { label: 'Swift', color: '#00e5ff' }, // Moves faster
+  vampiric: { label: 'Vampiric', color: '#e53935' }, // Heals whenever the player mistypes
+  reflective: { label: 'Reflective', color: '#b0bec5' }, // Returns part of bounce damage to the shield
+  splitting: { label: 'Splitting', color: '#1abc9c' }, // Breaks into smaller enemies on death
+  explosive: { label: 'Explosive', color: '#ff9800' }, // Blasts the shield on death or impact when close
+  mirrored: { label: 'Mirrored', color: '#ce93d8' } // Shows its word reversed
+};
+
+export const ELITE_AFFIX_IDS = Object.keys(ELITE_AFFIXES) as EliteAffix[];
+
+// Affix strengths at power 1
+export const SWIFT_SPEED_BONUS = 0.4;
+export const VAMPIRIC_HEAL_FRACTION = 0.1; // Share of max health healed per mistype
+export const REFLECT_FRACTION = 0.25; // Share of bounce damage returned to the shield
+export const EXPLOSION_DAMAGE = 15;
+export const EXPLOSION_RADIUS = 180;
+export const SPLITTING_CHILD_COUNT = 2;
+
+/**
+ * Number of affixes an elite rolls - deeper waves stack more of them
+ */
+export const getEliteAffixCount = (wave: number): number => {
+  if (wave < 6) return 1;
+  if (wave < 12) return 2;
+  return 3;
+};
+
+/**
+ * How strongly an elite's affixes act in a wave, doubling by wave 21
+ */
+export const getEliteAffixPower = (wave: number): number => {
+  return Math.min(1 + (wave - 1) * 0.05, 2);
+};
+
+/**
+ * A phase of a boss encounter
+ */
+export interface BossPhase {
+  phrase: string; // Typed word by word - every completed word breaks one health segment
+  summonCount?: number; // Minions summoned when the phase begins
+  speedBurst?: { multiplier: number; duration: number }; // Charge at the player when the phase begins
+  scramble?: { wordIndex: number; delay: number }; // This word's letters shuffle if it's still up after delay ms
+}
+
+/**
+ * A scripted boss encounter
+ */
+export interface BossDefinition {
+  id: string;
+  name: string;
+  title: string; // Shown on the intro banner
+  color: string;
+  radius: number;
+  speed: number;
+  phases: BossPhase[];
+}
+
+/**
+ * Health of one boss segment - each typed word of a phrase breaks one
+ */
+export const BOSS_SEGMENT_HEALTH = 100;
+
+export const BOSS_DEFINITIONS: BossDefinition[] = [
+  {
+    id: 'comet_king',
+    name: 'The Comet King',
+    title: 'Sovereign of the Outer Belt',
+    color: '#e67e22',
+    radius: 55,
+    speed: 18,
+    phases: [
+      { phrase: 'the sky is falling', summonCount: 2 },
+      { phrase: 'burn across the endless night', speedBurst: { multiplier: 3, duration: 2500 }, scramble: { wordIndex: 2, delay: 4000 } }
+    ]
+  },
+  {
+    id: 'void_leviathan',
+    name: 'Void Leviathan',
+    title: 'Devourer of Starlight',
+    color: '#8e44ad',
+    radius: 60,
+    speed: 16,
+    phases: [
+      { phrase: 'from the deep dark it rises', summonCount: 3 },
+      { phrase: 'every light will fade away', speedBurst: { multiplier: 3.5, duration: 2500 } },
+      { phrase: 'swallowed whole by silence', summonCount: 3, scramble: { wordIndex: 3, delay: 3500 } }
+    ]
+  },
+  {
+    id: 'world_breaker',
+    name: 'The World Breaker',
+    title: 'Last Shadow of the Void',
+    color: '#c0392b',
+    radius: 65,
+    speed: 15,
+    phases: [
+      { phrase: 'the end of all worlds has come', summonCount: 4 },
+      { phrase: 'shields crumble and oceans boil', speedBurst: { multiplier: 4, duration: 3000 }, scramble: { wordIndex: 1, delay: 3000 } },
+      { phrase: 'nothing survives the final storm', summonCount: 4, speedBurst: { multiplier: 4, duration: 2000 } },
+      { phrase: 'kneel before oblivion', scramble: { wordIndex: 2, delay: 2500 } }
+    ]
+  }
+];
+
+/**
+ * Boss definition by id
+ */
+export const getBossDefinitionById = (id: string): BossDefinition | null => {
+  return BOSS_DEFINITIONS.find(boss => boss.id === id) ?? null;
+};
+
+/**
+ * Words of a boss phase's phrase
+ */
+export const getPhraseWords = (phase: BossPhase): string[] => {
+  return phase.phrase.split(' ');
+};
+
+/**
+ * Number of health segments of a boss (one per word of every phrase)
+ */
+export const getBossSegmentCount = (definition: BossDefinition): number => {
+  return definition.phases.reduce((total, phase) => total + getPhraseWords(phase).length, 0);
+};
+
+/**
+ * Player stats that relics and synergies can modify
+ */
+export type ModifiableStat =
+  | 'damage'
+  | 'damageMultiplier'
+  | 'critChance'
+  | 'critMultiplier'
+  | 'projectileSpeed'
+  | 'projectileSize'
+  | 'maxShield'
+  | 'shieldRegenRate'
+  | 'shieldEfficiency'
+  | 'experienceMultiplier'
+  | 'multiShotTargets'
+  | 'bounceCount'
+  | 'bounceRange'
+  | 'extraPierces'
+  | 'frozenBulletCount'
+  | 'activeSkillRechargeRate'
+  | 'skillTriggerMultiplier'
+  | 'enemySpeedMultiplier'
+  | 'explosionDamageMultiplier'
+  | 'aoeRadius';
+
+/**
+ * A change to one stat. Adds are summed, then multipliers applied, then the floor.
+ */
+export interface StatModifier {
+  stat: ModifiableStat;
+  add?: number;
+  multiply?: number;
+  atLeast?: number;
+}
+
+/**
+ * How each modifiable stat is shown, and whether its values are fractions shown as percentages
+ */
+export const MODIFIABLE_STATS: Record<ModifiableStat, { label: string; icon: string; isPercent: boolean }> = {
+  damage: { label: 'Base Damage', icon: '⚔️', isPercent: false },
+  damageMultiplier: { label: 'Damage', icon: '⚔️', isPercent: true },
+  critChance: { label: 'Crit Chance', icon: '💥', isPercent: true },
+  critMultiplier: { label: 'Crit Damage', icon: '💥', isPercent: true },
+  projectileSpeed: { label: 'Projectile Speed', icon: '💨', isPercent: true },
+  projectileSize: { label: 'Projectile Size', icon: '🔵', isPercent: false },
+  maxShield: { label: 'Max Shield', icon: '🛡️', isPercent: false },
+  shieldRegenRate: { label: 'Shield Regen/s', icon: '🛡️', isPercent: false },
+  shieldEfficiency: { label: 'Shield Efficiency', icon: '🛡️', isPercent: true },
+  experienceMultiplier: { label: 'Experience', icon: '⭐', isPercent: true },
+  multiShotTargets: { label: 'Multi-Shot Targets', icon: '🎯', isPercent: false },
+  bounceCount: { label: 'Bounces', icon: '↩️', isPercent: false },
+  bounceRange: { label: 'Bounce Range', icon: '↩️', isPercent: false },
+  extraPierces: { label: 'Pierced Enemies', icon: '⛓️', isPercent: false },
+  frozenBulletCount: { label: 'Ice Arrows', icon: '🏹', isPercent: false },
+  activeSkillRechargeRate: { label: 'Active Skill Recharge', icon: '⏱️', isPercent: true },
+  skillTriggerMultiplier: { label: 'Skill Trigger Kills', icon: '🕊️', isPercent: true },
+  enemySpeedMultiplier: { label: 'Enemy Speed', icon: '⏳', isPercent: true },
+  explosionDamageMultiplier: { label: 'Explosion Damage', icon: '💣', isPercent: true },
+  aoeRadius: { label: 'Shot Explosion Radius', icon: '💣', isPercent: false }
 };
 
+/**
+ * What relic behaviours can do in the world
+ */
+export interface RelicEffects extends ActiveSkillEffects {
+  rng: RandomSource;
+  igniteEnemy: (enemy: Enemy, damage: number) => void;
+}
+
+/**
+ * Behaviours a relic runs when things happen in the run, beyond its stat modifiers
+ */
+export interface RelicHooks {
+  onHit?: (player: Player, enemy: Enemy, damage: number, effects: RelicEffects) => void;
+  onKill?: (player: Player, enemy: Enemy, effects: RelicEffects) => void;
+  onWrongTyping?: (player: Player, shieldLost: number, effects: RelicEffects) => void;
+  onWaveStart?: (player: Player, wave: number, effects: RelicEffects) => void;
+}
+
 /**
  * Relic interfaces for the aura system
  */
@@ -622,8 +1302,8 @@ export interface Relic {
   icon: string;
   rarity: 'common' | 'rare' | 'epic' | 'legendary';
   auraColor: string;
-  applyEffect: (player: Player) => void;
-  removeEffect?: (player: Player) => void; // Optional cleanup function
+  modifiers: StatModifier[];
+  hooks?: RelicHooks;
 }
 
 export interface RelicStar {
@@ -632,7 +1312,7 @@ export interface RelicStar {
   y: number;
   word: string;
   relic: Relic;
-  velocityX: number;
+  velocityX: number; // Pixels per second
   velocityY: number;
   size: number;
   glowIntensity: number;
@@ -642,6 +1322,9 @@ export interface RelicStar {
   trail: { x: number; y: number; opacity: number }[];
   // Typing highlight properties
   typedProgress: number; // Number of characters typed correctly (0-1 ratio)
+  // Position at the previous simulation step, used for render interpolation
+  prevX?: number;
+  prevY?: number;
 }
 
 /**
@@ -657,9 +1340,7 @@ export const generateRelics = (): Relic[] => {
       icon: '👟',
       rarity: 'common',
       auraColor: '#ffb366',
-      applyEffect: (player: Player) => {
-        player.projectileSpeed += 1;
-      }
+      modifiers: [{ stat: 'projectileSpeed', add: 1 }]
     },
     {
       id: 'apollo_bow',
@@ -668,9 +1349,7 @@ export const generateRelics = (): Relic[] => {
       icon: '🏹',
       rarity: 'common',
       auraColor: '#ffd700',
-      applyEffect: (player: Player) => {
-        player.critChance += 0.2;
-      }
+      modifiers: [{ stat: 'critChance', add: 0.2 }]
     },
     {
       id: 'aegis_fragment',
@@ -679,13 +1358,10 @@ export const generateRelics = (): Relic[] => {
       icon: '🛡️',
       rarity: 'common',
       auraColor: '#4a90e2',
-      applyEffect: (player: Player) => {
-        const currentShield = player.shield;
-        const shieldIncrease = 75;
-        player.maxShield += shieldIncrease;
-        player.shield = Math.min(currentShield + shieldIncrease, player.maxShield);
-        player.shieldRegenRate += 2;
-      }
+      modifiers: [
+        { stat: 'maxShield', add: 75 },
+        { stat: 'shieldRegenRate', add: 2 }
+      ]
     },
     {
       id: 'prometheus_flame',
@@ -694,9 +1370,7 @@ export const generateRelics = (): Relic[] => {
       icon: '🔥',
       rarity: 'common',
       auraColor: '#ff6b47',
-      applyEffect: (player: Player) => {
-        player.damage = Math.floor(player.damage * 1.3);
-      }
+      modifiers: [{ stat: 'damage', multiply: 1.3 }]
     },
     {
       id: 'athena_wisdom',
@@ -705,9 +1379,7 @@ export const generateRelics = (): Relic[] => {
       icon: '🦉',
       rarity: 'common',
       auraColor: '#9b59b6',
-      applyEffect: (player: Player) => {
-        player.experienceMultiplier += 0.4;
-      }
+      modifiers: [{ stat: 'experienceMultiplier', add: 0.4 }]
     },
 
     // Rare Relics (30% chance) - Focus on specific playstyles
@@ -718,9 +1390,7 @@ export const generateRelics = (): Relic[] => {
       icon: '👊',
       rarity: 'rare',
       auraColor: '#e74c3c',
-      applyEffect: (player: Player) => {
-        player.critMultiplier += 1.0;
-      }
+      modifiers: [{ stat: 'critMultiplier', add: 1.0 }]
     },
     {
       id: 'artemis_quiver',
@@ -729,9 +1399,7 @@ export const generateRelics = (): Relic[] => {
       icon: '🏹',
       rarity: 'rare',
       auraColor: '#27ae60',
-      applyEffect: (player: Player) => {
-        player.multiShotTargets += 2;
-      }
+      modifiers: [{ stat: 'multiShotTargets', add: 2 }]
     },
     {
       id: 'hades_chains',
@@ -740,11 +1408,7 @@ export const generateRelics = (): Relic[] => {
       icon: '⛓️',
       rarity: 'rare',
       auraColor: '#2c3e50',
-      applyEffect: (player: Player) => {
-        // This will be handled in the projectile durability system
-        // Add 50 durability which equals roughly 2 more hits
-        // We'll modify the durability calculation
-      }
+      modifiers: [{ stat: 'extraPierces', add: 2 }]
     },
     {
       id: 'hermes_caduceus',
@@ -753,15 +1417,7 @@ export const generateRelics = (): Relic[] => {
       icon: '🕊️',
       rarity: 'rare',
       auraColor: '#3498db',
-      applyEffect: (player: Player) => {
-        // Reduce kill requirements for frost and fire skills
-        if (player.frostMasteryKillsRequired > 0) {
-          player.frostMasteryKillsRequired = Math.max(3, Math.floor(player.frostMasteryKillsRequired * 0.7));
-        }
-        if (player.fireMasteryKillsRequired > 0) {
-          player.fireMasteryKillsRequired = Math.max(35, Math.floor(player.fireMasteryKillsRequired * 0.7));
-        }
-      }
+      modifiers: [{ stat: 'skillTriggerMultiplier', multiply: 0.7 }]
     },
     {
       id: 'chronos_hourglass',
@@ -770,25 +1426,21 @@ export const generateRelics = (): Relic[] => {
       icon: '⏳',
       rarity: 'rare',
       auraColor: '#f39c12',
-      applyEffect: (player: Player) => {
-        if (!player.hasTimeDistortion) {
-          player.hasTimeDistortion = true;
-        }
-      }
+      modifiers: [{ stat: 'enemySpeedMultiplier', multiply: 0.7 }]
     },
 
     // Epic Relics (20% chance) - Focus on powerful combinations
     {
       id: 'poseidon_trident',
       name: 'Poseidon\'s Trident',
-      description: 'Bouncing shots gain +1 bounce and +100 range (requires ricochet skill)',
+      description: 'Bouncing shots gain +1 bounce and +100 range (more with Ricochet Mastery)',
       icon: '🔱',
       rarity: 'epic',
       auraColor: '#1abc9c',
-      applyEffect: (player: Player) => {
-        player.bounceCount += 1;
-        player.bounceRange += 100;
-      }
+      modifiers: [
+        { stat: 'bounceCount', add: 1 },
+        { stat: 'bounceRange', add: 100 }
+      ]
     },
     {
       id: 'hephaestus_forge',
@@ -797,14 +1449,10 @@ export const generateRelics = (): Relic[] => {
       icon: '🔨',
       rarity: 'epic',
       auraColor: '#e67e22',
-      applyEffect: (player: Player) => {
-        player.damageMultiplier += 0.5;
-        const currentSize = player.projectileSize;
-        const sizeRatio = currentSize / 4;
-        const diminishingFactor = 1 / (1 + sizeRatio * 0.2);
-        const actualIncrease = 0.6 * diminishingFactor;
-        player.projectileSize = Math.min(player.projectileSize * (1 + actualIncrease), 20);
-      }
+      modifiers: [
+        { stat: 'damageMultiplier', add: 0.5 },
+        { stat: 'projectileSize', multiply: 1.6 }
+      ]
     },
     {
       id: 'demeter_harvest',
@@ -813,10 +1461,10 @@ export const generateRelics = (): Relic[] => {
       icon: '🌾',
       rarity: 'epic',
       auraColor: '#2ecc71',
-      applyEffect: (player: Player) => {
-        player.experienceMultiplier += 2.0; // +200% = triple
-        player.shieldEfficiency += 1.0; // +100% = double
-      }
+      modifiers: [
+        { stat: 'experienceMultiplier', add: 2.0 }, // +200% = triple
+        { stat: 'shieldEfficiency', add: 1.0 } // +100% = double
+      ]
     },
     {
       id: 'dionysus_chalice',
@@ -825,16 +1473,11 @@ export const generateRelics = (): Relic[] => {
       icon: '🍷',
       rarity: 'epic',
       auraColor: '#9b59b6',
-      applyEffect: (player: Player) => {
-        if (player.aoeRadius > 0) {
-          player.aoeRadius *= 1.5;
-        } else {
-          player.aoeRadius = 40; // Give base explosion radius if none
-        }
-        if (!player.hasNovaCore) {
-          player.hasNovaCore = true;
-        }
-      }
+      modifiers: [
+        { stat: 'explosionDamageMultiplier', multiply: 2 },
+        { stat: 'aoeRadius', multiply: 1.5 },
+        { stat: 'aoeRadius', atLeast: 40 } // Shots that didn't explode get a base explosion radius
+      ]
     },
 
     // Legendary Relics (5% chance) - Game-changing effects
@@ -845,10 +1488,10 @@ export const generateRelics = (): Relic[] => {
       icon: '⚡',
       rarity: 'legendary',
       auraColor: '#f1c40f',
-      applyEffect: (player: Player) => {
-        player.critChance = 1.0; // 100% crit chance
-        player.critMultiplier += 2.0; // +200% crit damage
-      }
+      modifiers: [
+        { stat: 'critChance', atLeast: 1.0 }, // Every shot crits
+        { stat: 'critMultiplier', add: 2.0 } // +200% crit damage
+      ]
     },
     {
       id: 'pandora_box',
@@ -857,25 +1500,17 @@ export const generateRelics = (): Relic[] => {
       icon: '📦',
       rarity: 'legendary',
       auraColor: '#8e44ad',
-      applyEffect: (player: Player) => {
-        // More balanced legendary effect
-        player.damageMultiplier += 0.75;
-        player.critChance += 0.3;
-        player.critMultiplier += 0.5;
-        player.multiShotTargets += 2;
-        player.bounceCount += 2;
-        player.bounceRange += 75;
-        const currentShield = player.shield;
-        player.maxShield = Math.floor(player.maxShield * 1.5);
-        player.shield = Math.floor(currentShield * 1.5);
-        player.experienceMultiplier += 0.5;
-        // Moderate size increase
-        const currentSize = player.projectileSize;
-        const sizeRatio = currentSize / 4;
-        const diminishingFactor = 1 / (1 + sizeRatio * 0.15);
-        const actualIncrease = 0.5 * diminishingFactor;
-        player.projectileSize = Math.min(player.projectileSize * (1 + actualIncrease), 20);
-      }
+      modifiers: [
+        { stat: 'damageMultiplier', add: 0.75 },
+        { stat: 'critChance', add: 0.3 },
+        { stat: 'critMultiplier', add: 0.5 },
+        { stat: 'multiShotTargets', add: 2 },
+        { stat: 'bounceCount', add: 2 },
+        { stat: 'bounceRange', add: 75 },
+        { stat: 'maxShield', multiply: 1.5 },
+        { stat: 'experienceMultiplier', add: 0.5 },
+        { stat: 'projectileSize', multiply: 1.5 }
+      ]
     }
   ];
 };
@@ -883,7 +1518,7 @@ export const generateRelics = (): Relic[] => {
 /**
  * Get a random relic based on rarity weights, excluding already collected relics
  */
-export const getRandomRelic = (relics: Relic[], collectedRelicIds: string[] = []): Relic | null => {
+export const getRandomRelic = (relics: Relic[], collectedRelicIds: string[], rng: RandomSource): Relic | null => {
   // Filter out already collected relics
   const availableRelics = relics.filter(relic => !collectedRelicIds.includes(relic.id));
 
@@ -891,7 +1526,7 @@ export const getRandomRelic = (relics: Relic[], collectedRelicIds: string[] = []
     return null; // No more relics available
   }
 
-  const random = Math.random();
+  const random = rng.next();
 
   // Rarity chances: Common 45%, Rare 30%, Epic 20%, Legendary 5%
   let targetRarity: string;
@@ -909,11 +1544,121 @@ export const getRandomRelic = (relics: Relic[], collectedRelicIds: string[] = []
 
   if (relicsOfRarity.length === 0) {
     // If no relics of target rarity are available, pick from any available relic
-    const fallbackRelic = availableRelics[Math.floor(Math.random() * availableRelics.length)];
+    const fallbackRelic = availableRelics[Math.floor(rng.next() * availableRelics.length)];
     return fallbackRelic;
   }
 
-  return relicsOfRarity[Math.floor(Math.random() * relicsOfRarity.length)];
+  return relicsOfRarity[Math.floor(rng.next() * relicsOfRarity.length)];
+};
+
+/**
+ * Interface for a named combo that activates once the player has all of its skill levels and relics
+ */
+export interface SynergyDefinition {
+  id: string;
+  name: string;
+  description: string;
+  icon: string;
+  color: string;
+  skills: SkillRequirement[];
+  relicIds: string[];
+  modifiers: StatModifier[]; // Resolved like relic modifiers, behaviours check hasSynergy
+  onActivate?: (player: Player) => void; // One-off rewards, granted the first time the synergy activates in a run
+}
+
+export const THERMAL_SHOCK_MULTIPLIER = 1.5; // Damage to enemies that are frozen and burning at once
+
+export const SYNERGIES: SynergyDefinition[] = [
+  {
+    id: 'thermal_shock',
+    name: 'Thermal Shock',
+    description: 'Enemies that are frozen and burning at once take 50% more damage',
+    icon: '🌡️',
+    color: '#ff7675',
+    skills: [{ id: 'frost_mastery', level: 1 }, { id: 'fire_mastery', level: 1 }],
+    relicIds: [],
+    modifiers: []
+  },
+  {
+    id: 'tidal_ricochet',
+    name: 'Tidal Ricochet',
+    description: 'Bouncing shots gain another +1 bounce and +60 range',
+    icon: '🌊',
+    color: '#1abc9c',
+    skills: [{ id: 'ricochet', level: 1 }],
+    relicIds: ['poseidon_trident'],
+    modifiers: [
+      { stat: 'bounceCount', add: 1 },
+      { stat: 'bounceRange', add: 60 }
+    ]
+  },
+  {
+    id: 'winged_frost',
+    name: 'Winged Frost',
+    description: 'Arctic Barrage fires 4 more arrows',
+    icon: '🪽',
+    color: '#74b9ff',
+    skills: [{ id: 'frost_mastery', level: 1 }],
+    relicIds: ['hermes_caduceus'],
+    modifiers: [{ stat: 'frozenBulletCount', add: 4 }]
+  },
+  {
+    id: 'divine_messenger',
+    name: 'Divine Messenger',
+    description: '+50% projectile speed and active skills recharge 20% faster',
+    icon: '🪄',
+    color: '#ffb366',
+    skills: [],
+    relicIds: ['hermes_sandals', 'hermes_caduceus'],
+    modifiers: [
+      { stat: 'projectileSpeed', add: 0.5 },
+      { stat: 'activeSkillRechargeRate', add: 0.2 }
+    ]
+  },
+  {
+    id: 'war_god',
+    name: 'Blessing of Ares',
+    description: '+0.5x crit multiplier',
+    icon: '⚔️',
+    color: '#e74c3c',
+    skills: [{ id: 'crit', level: 2 }],
+    relicIds: ['ares_gauntlets'],
+    modifiers: [{ stat: 'critMultiplier', add: 0.5 }]
+  },
+  {
+    id: 'enlightenment',
+    name: 'Enlightenment',
+    description: '+2 level-up rerolls',
+    icon: '💡',
+    color: '#9b59b6',
+    skills: [{ id: 'scholar', level: 1 }],
+    relicIds: ['athena_wisdom'],
+    modifiers: [],
+    onActivate: (player: Player) => {
+      player.rerollCharges += 2;
+    }
+  }
+];
+
+/**
+ * Whether a synergy is active for the player
+ */
+export const hasSynergy = (player: Player, synergyId: string): boolean => {
+  return player.synergyIds.includes(synergyId);
+};
+
+/**
+ * Synergies whose skills and relics are all in place but that haven't activated yet.
+ * With a skill id, that skill counts one level higher - what taking it on a level up would complete.
+ */
+export const getNewSynergies = (player: Player, skills: Skill[], takenSkillId: string | null = null): SynergyDefinition[] => {
+  const getLevel = (id: string) => (skills.find(skill => skill.id === id)?.level ?? 0) + (id === takenSkillId ? 1 : 0);
+
+  return SYNERGIES.filter(synergy =>
+    !hasSynergy(player, synergy.id) &&
+    synergy.skills.every(requirement => getLevel(requirement.id) >= requirement.level) &&
+    synergy.relicIds.every(id => player.collectedRelicIds.includes(id))
+  );
 };
 
 /**
@@ -923,40 +1668,41 @@ export const createRelicStar = (
   id: number,
   relic: Relic,
   canvasWidth: number,
-  canvasHeight: number
+  canvasHeight: number,
+  rng: RandomSource
 ): RelicStar => {
   // Random spawn position and direction
-  const side = Math.floor(Math.random() * 4); // 0: top, 1: right, 2: bottom, 3: left
+  const side = Math.floor(rng.next() * 4); // 0: top, 1: right, 2: bottom, 3: left
   let x: number, y: number, velocityX: number, velocityY: number;
 
-  const baseSpeed = 1.5;
-  const speedVariation = 0.5;
-  const speed = baseSpeed + (Math.random() * speedVariation);
+  const baseSpeed = 90; // Pixels per second
+  const speedVariation = 30;
+  const speed = baseSpeed + (rng.next() * speedVariation);
 
   switch (side) {
     case 0: // top
-      x = Math.random() * canvasWidth;
+      x = rng.next() * canvasWidth;
       y = -50;
-      velocityX = (Math.random() - 0.5) * speed;
+      velocityX = (rng.next() - 0.5) * speed;
       velocityY = speed;
       break;
     case 1: // right
       x = canvasWidth + 50;
-      y = Math.random() * canvasHeight;
+      y = rng.next() * canvasHeight;
       velocityX = -speed;
-      velocityY = (Math.random() - 0.5) * speed;
+      velocityY = (rng.next() - 0.5) * speed;
       break;
     case 2: // bottom
-      x = Math.random() * canvasWidth;
+      x = rng.next() * canvasWidth;
       y = canvasHeight + 50;
-      velocityX = (Math.random() - 0.5) * speed;
+      velocityX = (rng.next() - 0.5) * speed;
       velocityY = -speed;
       break;
     default: // left
       x = -50;
-      y = Math.random() * canvasHeight;
+      y = rng.next() * canvasHeight;
       velocityX = speed;
-      velocityY = (Math.random() - 0.5) * speed;
+      velocityY = (rng.next() - 0.5) * speed;
       break;
   }
 
@@ -983,13 +1729,13 @@ export const createRelicStar = (
     id,
     x,
     y,
-    word: generateRelicWord(relic.rarity),
+    word: generateRelicWord(relic.rarity, rng),
     relic,
     velocityX,
     velocityY,
     size: 18 + (relic.rarity === 'legendary' ? 12 : relic.rarity === 'epic' ? 8 : relic.rarity === 'rare' ? 4 : 0),
     glowIntensity: 1,
-    pulsePhase: Math.random() * Math.PI * 2,
+    pulsePhase: rng.next() * Math.PI * 2,
     timeRemaining: maxTime,
     maxTime,
     trail: [],
@@ -1000,7 +1746,7 @@ export const createRelicStar = (
 /**
  * Generate words for relic stars based on rarity using Greek god names
  */
-const generateRelicWord = (rarity: string): string => {
+const generateRelicWord = (rarity: string, rng: RandomSource): string => {
   const words = {
     common: ['hermes', 'apollo', 'athena', 'hestia', 'demeter'],
     rare: ['artemis', 'ares', 'hades', 'chronos', 'hecate'],
@@ -1009,5 +1755,5 @@ const generateRelicWord = (rarity: string): string => {
   };
 
   const rarityWords = words[rarity as keyof typeof words] || words.common;
-  return rarityWords[Math.floor(Math.random() * rarityWords.length)];
+  return rarityWords[Math.floor(rng.next() * rarityWords.length)];
 };
\ No newline at end of file
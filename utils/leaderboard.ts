@@ -0,0 +1,142 @@
+/**
+ * Leaderboard
+ * Run submissions and leaderboard entries shared by the game and the server API.
+ */
+import type { SimulationWorld, RunOptions, RunRecording } from './mechanics/gameSimulation';
+import type { SkillProgress } from './mechanics/runSnapshot';
+import { getTypingSummary } from './mechanics/typingMetrics';
+
+/**
+ * Leaderboards are kept per mode, since custom words or waves and training focus change how hard a run is
+ */
+export type RunMode = 'standard' | 'custom' | 'training';
+
+export const RUN_MODES: RunMode[] = ['standard', 'custom', 'training'];
+
+/**
+ * Time range a leaderboard covers
+ */
+export type LeaderboardPeriod = 'day' | 'week' | 'month' | 'all';
+
+export const LEADERBOARD_PERIODS: LeaderboardPeriod[] = ['day', 'week', 'month', 'all'];
+
+/**
+ * Interface for the typing stats of a finished run
+ */
+export interface RunTypingStats {
+  netWpm: number;
+  grossWpm: number;
+  accuracy: number; // 0-1
+  completedWords: number;
+  errors: number;
+}
+
+/**
+ * Interface for a finished run sent to the server.
+ * The recording lets the server replay the run and check the claimed result.
+ */
+export interface RunSubmission {
+  seed: number;
+  mode: RunMode;
+  score: number;
+  wave: number;
+  level: number;
+  survivalTime: number; // Milliseconds
+  gameWon: boolean;
+  enemiesKilled: number;
+  relics: string[]; // Collected relic ids
+  skills: SkillProgress[];
+  typing: RunTypingStats;
+  recording: RunRecording;
+}
+
+/**
+ * Interface for a run as stored by the server
+ */
+export interface StoredRun extends RunSubmission {
+  id: string;
+  submittedAt: number;
+}
+
+/**
+ * Interface for a row of the leaderboard
+ */
+export interface LeaderboardEntry {
+  rank: number;
+  id: string;
+  mode: RunMode;
+  score: number;
+  wave: number;
+  level: number;
+  survivalTime: number;
+  gameWon: boolean;
+  netWpm: number;
+  accuracy: number;
+  submittedAt: number;
+}
+
+/**
+ * Interface for the leaderboard API response
+ */
+export interface LeaderboardResponse {
+  mode: RunMode | null; // null when all modes are included
+  period: LeaderboardPeriod;
+  total: number;
+  entries: LeaderboardEntry[];
+}
+
+/**
+ * Interface for the response to a run submission
+ */
+export interface SubmitRunResponse {
+  id: string;
+  rank: number; // All-time rank within the run's mode
+  total: number;
+}
+
+/**
+ * Leaderboard mode of a run from its options
+ */
+export const getRunMode = (options: RunOptions): RunMode => {
+  if (options.trainingFocus) return 'training';
+  if (options.wordList || options.waveSet) return 'custom';
+  return 'standard';
+};
+
+/**
+ * Build the submission for a finished run
+ */
+export const createRunSubmission = (world: SimulationWorld, recording: RunRecording, gameTime: number): RunSubmission => {
+  const { gameState } = world;
+  const typing = getTypingSummary(world.typingMetrics, gameTime);
+
+  return {
+    seed: recording.seed,
+    mode: getRunMode(recording.options),
+    score: gameState.score,
+    wave: gameState.wave,
+    level: gameState.player.level,
+    survivalTime: gameTime - gameState.startTime,
+    gameWon: gameState.gameWon,
+    enemiesKilled: gameState.enemiesKilled,
+    relics: [...gameState.player.collectedRelicIds],
+    skills: gameState.availableSkills
+      .filter(skill => skill.level > 0)
+      .map(skill => ({ id: skill.id, level: skill.level })),
+    typing: {
+      netWpm: typing.netWpm,
+      grossWpm: typing.grossWpm,
+      accuracy: typing.accuracy,
+      completedWords: typing.completedWords,
+      errors: typing.errors
+    },
+    recording
+  };
+};
+
+/**
+ * Order runs for the leaderboard: higher score first, then longer survival, then earlier submission
+ */
+export const compareRuns = (a: StoredRun, b: StoredRun): number => {
+  return b.score - a.score || b.survivalTime - a.survivalTime || a.submittedAt - b.submittedAt;
+};
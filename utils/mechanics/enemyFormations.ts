@@ -0,0 +1,117 @@
+/**
+ * Enemy formations
+ * Lays out where the members of a formation spawn. Edge formations come in from one side of the screen,
+ * rings surround the player and close in from every side at once.
+ */
+import type { Player, FormationShape } from '../gameModels';
+import { FORMATIONS } from '../gameModels';
+import type { RandomSource } from './simulationCore';
+
+const SPAWN_MARGIN = 50; // How far beyond the screen edge the lead member of a formation spawns
+const RING_MARGIN = 60; // How far beyond the screen corners a ring spawns
+
+type SpawnSide = 'top' | 'right' | 'bottom' | 'left';
+
+/**
+ * Where a member of a formation spawns
+ */
+export interface FormationSpawn {
+  x: number;
+  y: number;
+  spawnSide: SpawnSide;
+}
+
+// Slot of a member relative to the lead: across the edge, and how far behind it (both in units of the formation's spacing)
+interface FormationSlot {
+  across: number;
+  behind: number;
+}
+
+const getEdgeSlots = (shape: FormationShape, size: number): FormationSlot[] => {
+  const slots: FormationSlot[] = [];
+  for (let i = 0; i < size; i++) {
+    switch (shape) {
+      case 'line':
+        slots.push({ across: i - (size - 1) / 2, behind: 0 });
+        break;
+      case 'wedge': {
+        // The lead at the point, then pairs further back on either side
+        const rank = Math.ceil(i / 2);
+        slots.push({ across: i % 2 === 1 ? -rank : rank, behind: rank });
+        break;
+      }
+      case 'column':
+        slots.push({ across: i % 2 === 0 ? -0.5 : 0.5, behind: i });
+        break;
+      case 'single':
+      default:
+        slots.push({ across: 0, behind: 0 });
+        break;
+    }
+  }
+  return slots;
+};
+
+// Members of an edge formation: a random side, and a random point along it where the whole formation fits
+const getEdgeSpawns = (
+  shape: FormationShape,
+  canvasWidth: number,
+  canvasHeight: number,
+  rng: RandomSource
+): FormationSpawn[] => {
+  const { size, spacing } = FORMATIONS[shape];
+  const slots = getEdgeSlots(shape, size);
+  const spawnSide = (['top', 'right', 'bottom', 'left'] as SpawnSide[])[Math.floor(rng.next() * 4)];
+
+  // Along the edge, and into the screen
+  const isHorizontal = spawnSide === 'top' || spawnSide === 'bottom';
+  const edgeLength = isHorizontal ? canvasWidth : canvasHeight;
+  const inwardX = spawnSide === 'left' ? 1 : spawnSide === 'right' ? -1 : 0;
+  const inwardY = spawnSide === 'top' ? 1 : spawnSide === 'bottom' ? -1 : 0;
+
+  const extent = Math.max(...slots.map(slot => Math.abs(slot.across))) * spacing;
+  const along = edgeLength > extent * 2
+    ? extent + rng.next() * (edgeLength - extent * 2)
+    : edgeLength / 2;
+  const leadX = isHorizontal ? along : spawnSide === 'left' ? -SPAWN_MARGIN : canvasWidth + SPAWN_MARGIN;
+  const leadY = isHorizontal ? (spawnSide === 'top' ? -SPAWN_MARGIN : canvasHeight + SPAWN_MARGIN) : along;
+
+  return slots.map(slot => ({
+    x: leadX + (isHorizontal ? slot.across * spacing : 0) - inwardX * slot.behind * spacing,
+    y: leadY + (isHorizontal ? 0 : slot.across * spacing) - inwardY * slot.behind * spacing,
+    spawnSide
+  }));
+};
+
+// Members of a ring: evenly around the player, just off screen, each labelled with the side it comes from
+const getRingSpawns = (canvasWidth: number, canvasHeight: number, player: Player, rng: RandomSource): FormationSpawn[] => {
+  const { size } = FORMATIONS.ring;
+  const radius = Math.sqrt(canvasWidth * canvasWidth + canvasHeight * canvasHeight) / 2 + RING_MARGIN;
+  const startAngle = rng.next() * Math.PI * 2;
+
+  return Array.from({ length: size }, (_, i) => {
+    const angle = startAngle + (i / size) * Math.PI * 2;
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    const spawnSide: SpawnSide = Math.abs(cos) > Math.abs(sin)
+      ? (cos > 0 ? 'right' : 'left')
+      : (sin > 0 ? 'bottom' : 'top');
+    return { x: player.x + cos * radius, y: player.y + sin * radius, spawnSide };
+  });
+};
+
+/**
+ * Get the spawn points of a formation's members, lead first
+ */
+export const getFormationSpawns = (
+  shape: FormationShape,
+  canvasWidth: number,
+  canvasHeight: number,
+  player: Player,
+  rng: RandomSource
+): FormationSpawn[] => {
+  if (shape === 'ring') {
+    return getRingSpawns(canvasWidth, canvasHeight, player, rng);
+  }
+  return getEdgeSpawns(shape, canvasWidth, canvasHeight, rng);
+};
@@ -0,0 +1,187 @@
+/**
+ * Enemy movement
+ * Movement behaviours that steer enemies toward the player. Every behaviour recomputes the enemy's
+ * velocity from its current speed each step, so freezes, hasteners and other speed changes apply to all of them.
+ */
+import type { Enemy, Player, MovementBehavior, EnemyMovement } from '../gameModels';
+import { HASTE_SPEED_MULTIPLIER } from '../gameModels';
+import type { RandomSource, SimulationContext } from './simulationCore';
+
+const ZIGZAG_AMPLITUDE = 0.9; // Sideways speed at the peak of a swing, relative to the forward speed
+const ZIGZAG_FREQUENCY = 2.5; // Radians per second
+const SPIRAL_ANGLE = Math.PI / 3; // How far an orbiting enemy's heading turns away from the player
+const SPIRAL_SPEED_MULTIPLIER = 1.3; // Orbiters move faster, but only part of it brings them closer
+const DASH_SPEED_MULTIPLIER = 2.5;
+const DASH_DURATION = 800; // Milliseconds
+const PAUSE_DURATION = 1200;
+const BLINK_SPEED_MULTIPLIER = 0.6; // Blinkers drift slowly between teleports
+const BLINK_INTERVAL = 3000;
+const BLINK_DISTANCE = 80; // How much closer a blink takes an enemy
+const BLINK_MAX_ANGLE = Math.PI / 5; // How far around the player a blink can move an enemy
+const BLINK_MIN_DISTANCE = 120; // Blinks never land closer to the player than this
+const FLANK_OFFSET = 220; // How far beside the player flankers aim while they're still far out
+
+/**
+ * Pick a movement behaviour from weights, falling back to direct homing
+ */
+export const pickMovementBehavior = (weights: Partial<Record<MovementBehavior, number>>, rng: RandomSource): MovementBehavior => {
+  const entries = Object.entries(weights) as [MovementBehavior, number][];
+  const total = entries.reduce((sum, [, weight]) => sum + weight, 0);
+
+  let roll = rng.next() * total;
+  for (const [behavior, weight] of entries) {
+    if (roll < weight) return behavior;
+    roll -= weight;
+  }
+  return 'direct';
+};
+
+/**
+ * Create the movement state for a newly spawned enemy
+ */
+export const createEnemyMovement = (behavior: MovementBehavior, rng: RandomSource, now: number): EnemyMovement => {
+  return {
+    behavior,
+    elapsed: 0,
+    direction: rng.next() < 0.5 ? 1 : -1,
+    nextChangeAt: behavior === 'dash' ? now + PAUSE_DURATION : behavior === 'blink' ? now + BLINK_INTERVAL : null,
+    isDashing: false,
+    flankAngle: (rng.next() - 0.5) * Math.PI * 1.5
+  };
+};
+
+// Unit vector from an enemy to the player, and the distance between them
+const getHeading = (enemy: Enemy, player: Player) => {
+  const dx = player.x - enemy.x;
+  const dy = player.y - enemy.y;
+  const distance = Math.sqrt(dx * dx + dy * dy) || 1;
+  return { x: dx / distance, y: dy / distance, distance };
+};
+
+// Current speed of an enemy, sped up while a hastener is nearby and slowed by the player's relics
+const getSpeed = (enemy: Enemy, player: Player): number => {
+  return (enemy.isHasted ? enemy.speed * HASTE_SPEED_MULTIPLIER : enemy.speed) * player.enemySpeedMultiplier;
+};
+
+const setVelocity = (enemy: Enemy, x: number, y: number, speed: number): void => {
+  enemy.velocityX = x * speed;
+  enemy.velocityY = y * speed;
+};
+
+// Straight at the player
+const updateDirect = (enemy: Enemy, player: Player): void => {
+  const heading = getHeading(enemy, player);
+  setVelocity(enemy, heading.x, heading.y, getSpeed(enemy, player));
+};
+
+// Toward the player while swinging from side to side
+const updateZigzag = (enemy: Enemy, movement: EnemyMovement, player: Player): void => {
+  const heading = getHeading(enemy, player);
+  const swing = Math.cos(movement.elapsed * ZIGZAG_FREQUENCY) * ZIGZAG_AMPLITUDE * movement.direction;
+  const speed = getSpeed(enemy, player);
+
+  enemy.velocityX = (heading.x - heading.y * swing) * speed;
+  enemy.velocityY = (heading.y + heading.x * swing) * speed;
+};
+
+// Circle the player while closing in
+const updateSpiral = (enemy: Enemy, movement: EnemyMovement, player: Player): void => {
+  const heading = getHeading(enemy, player);
+  const angle = SPIRAL_ANGLE * movement.direction;
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+
+  setVelocity(enemy, heading.x * cos - heading.y * sin, heading.x * sin + heading.y * cos, getSpeed(enemy, player) * SPIRAL_SPEED_MULTIPLIER);
+};
+
+// Hold still, then rush at the player
+const updateDash = (enemy: Enemy, movement: EnemyMovement, player: Player, now: number): void => {
+  if (movement.nextChangeAt !== null && now >= movement.nextChangeAt) {
+    movement.isDashing = !movement.isDashing;
+    movement.nextChangeAt = now + (movement.isDashing ? DASH_DURATION : PAUSE_DURATION);
+  }
+
+  const heading = getHeading(enemy, player);
+  setVelocity(enemy, heading.x, heading.y, movement.isDashing ? getSpeed(enemy, player) * DASH_SPEED_MULTIPLIER : 0);
+};
+
+// Drift toward the player and every so often teleport closer, a little around the player (true when it blinked)
+const updateBlink = (enemy: Enemy, movement: EnemyMovement, player: Player, context: SimulationContext): boolean => {
+  const now = context.clock.now();
+  const heading = getHeading(enemy, player);
+  setVelocity(enemy, heading.x, heading.y, getSpeed(enemy, player) * BLINK_SPEED_MULTIPLIER);
+
+  if (movement.nextChangeAt === null || now < movement.nextChangeAt) return false;
+  movement.nextChangeAt = now + BLINK_INTERVAL;
+
+  // Frozen enemies can't blink
+  if (enemy.isFrozen) return false;
+
+  const distance = Math.max(BLINK_MIN_DISTANCE, heading.distance - BLINK_DISTANCE);
+  if (distance >= heading.distance) return false;
+
+  const angle = Math.atan2(enemy.y - player.y, enemy.x - player.x) + (context.rng.next() - 0.5) * 2 * BLINK_MAX_ANGLE;
+  enemy.x = player.x + Math.cos(angle) * distance;
+  enemy.y = player.y + Math.sin(angle) * distance;
+  // Jump straight there instead of interpolating across the gap
+  enemy.prevX = enemy.x;
+  enemy.prevY = enemy.y;
+  return true;
+};
+
+// Aim beside the player, following its rotation, and converge as the gap closes
+const updateFlank = (enemy: Enemy, movement: EnemyMovement, player: Player): void => {
+  const { distance } = getHeading(enemy, player);
+  const angle = player.rotation + movement.flankAngle;
+  const offset = Math.min(FLANK_OFFSET, distance * 0.5);
+
+  const dx = player.x + Math.cos(angle) * offset - enemy.x;
+  const dy = player.y + Math.sin(angle) * offset - enemy.y;
+  const targetDistance = Math.sqrt(dx * dx + dy * dy) || 1;
+  setVelocity(enemy, dx / targetDistance, dy / targetDistance, getSpeed(enemy, player));
+};
+
+/**
+ * Steer an enemy by its movement behaviour for one step (true when it teleported)
+ */
+export const updateEnemyMovement = (
+  enemy: Enemy,
+  player: Player,
+  deltaTime: number,
+  context: SimulationContext
+): boolean => {
+  // Ranged enemies hold position once they're close enough to fire
+  if (enemy.ranged && getHeading(enemy, player).distance <= enemy.ranged.standoffRadius) {
+    setVelocity(enemy, 0, 0, 0);
+    return false;
+  }
+
+  const movement = enemy.movement;
+  if (!movement) {
+    updateDirect(enemy, player);
+    return false;
+  }
+
+  movement.elapsed += deltaTime;
+
+  switch (movement.behavior) {
+    case 'zigzag':
+      updateZigzag(enemy, movement, player);
+      return false;
+    case 'spiral':
+      updateSpiral(enemy, movement, player);
+      return false;
+    case 'dash':
+      updateDash(enemy, movement, player, context.clock.now());
+      return false;
+    case 'blink':
+      return updateBlink(enemy, movement, player, context);
+    case 'flank':
+      updateFlank(enemy, movement, player);
+      return false;
+    case 'direct':
+    default:
+      updateDirect(enemy, player);
+      return false;
+  }
+};
@@ -0,0 +1,61 @@
+/**
+ * Enemy stealth
+ * Stealth enemies show an obscured version of their word until they close in on the player.
+ * Only the display changes - typing is always matched against the real word.
+ */
+import type { Enemy, Player, EnemyStealth } from '../gameModels';
+import { scrambleWord } from './gameMechanics';
+import { createRandomSource } from './simulationCore';
+
+const HIDDEN_LETTER = '_';
+const FLICKER_PERIOD = 1400; // Milliseconds between flickers
+const FLICKER_VISIBLE = 350; // How long the word shows during each flicker
+
+// Every letter of a word replaced by a blank
+const hideWord = (word: string): string => {
+  return HIDDEN_LETTER.repeat(word.length);
+};
+
+// Letters uncover from the front, one at a time, as the enemy covers the distance to its reveal radius
+const getRevealedWord = (word: string, stealth: EnemyStealth, distance: number): string => {
+  const range = Math.max(1, stealth.startDistance - stealth.revealRadius);
+  const progress = Math.min(Math.max((stealth.startDistance - distance) / range, 0), 1);
+  const revealed = Math.floor(progress * word.length);
+  return word.slice(0, revealed) + hideWord(word.slice(revealed));
+};
+
+// The word shows briefly every flicker period - enemies are offset so they don't all flicker together
+const getFlickeringWord = (word: string, enemy: Enemy, now: number): string => {
+  const phase = (now + enemy.id * 389) % FLICKER_PERIOD;
+  return phase < FLICKER_VISIBLE ? word : hideWord(word);
+};
+
+/**
+ * Update the word a stealth enemy shows for its distance from the player
+ */
+export const updateEnemyStealth = (enemy: Enemy, player: Player, now: number): void => {
+  const stealth = enemy.stealth;
+  if (!stealth) return;
+
+  const word = enemy.word;
+  const dx = enemy.x - player.x;
+  const dy = enemy.y - player.y;
+  const distance = Math.sqrt(dx * dx + dy * dy);
+  if (distance <= stealth.revealRadius) {
+    stealth.displayWord = word;
+    return;
+  }
+
+  switch (stealth.mode) {
+    case 'reveal':
+      stealth.displayWord = getRevealedWord(word, stealth, distance);
+      break;
+    case 'flicker':
+      stealth.displayWord = getFlickeringWord(word, enemy, now);
+      break;
+    case 'scramble':
+      // Seeded by the enemy so the shuffle holds still between steps without using the run's random numbers
+      stealth.displayWord = scrambleWord(word, createRandomSource(enemy.id));
+      break;
+  }
+};
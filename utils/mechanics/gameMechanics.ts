@@ -2,143 +2,328 @@
  * Game mechanics
  * Contains functions for managing game mechanics like level progression, enemy spawning, etc.
  */
-import type { Enemy, GameState, Player, Skill } from '../gameModels';
-import { createEnemy, getWaveConfiguration, getRandomSkills } from '../gameModels';
-import { getRandomWord } from '../wordGenerator';
+import type { Enemy, GameState, BossDefinition, Missile, EliteAffix } from '../gameModels';
+import {
+  createEnemy,
+  getPhraseWords,
+  getBossSegmentCount,
+  BOSS_SEGMENT_HEALTH,
+  SUPPORT_ROLE_IDS,
+  STEALTH_MODES,
+  ELITE_AFFIX_IDS,
+  SWIFT_SPEED_BONUS,
+  REFLECT_FRACTION,
+  SPLITTING_CHILD_COUNT,
+  getEliteAffixCount,
+  getEliteAffixPower
+} from '../gameModels';
+import {
+  type CompoundWord,
+  getRandomWord,
+  getRandomCompoundWord,
+  getRandomMissileWord,
+  getEnemyWordTierWeights
+} from '../wordGenerator';
+import { type WaveDefinition, getWaveDefinition, getBaseHealth } from '../waveScript';
+import { type RandomSource, type SimulationContext, pickRandom } from './simulationCore';
+import { pickMovementBehavior, createEnemyMovement } from './enemyMovement';
+import { type FormationSpawn, getFormationSpawns } from './enemyFormations';
 
 /**
  * Start a new wave
  */
 export const startWave = (
   gameState: GameState,
-  canvasWidth: number,
-  canvasHeight: number,
-  onCreateExplosion: (x: number, y: number, color: string, radius: number, damage: number) => void,
-  onCreateDamageNumber: (x: number, y: number, value: number, color: string, isCritical: boolean, text: string) => void,
-  spawnTimerId: { value: number },
-  isEffectivelyPaused?: () => boolean
+  context: SimulationContext
 ): void => {
-  const wave = gameState.wave;
-  const waveConfig = getWaveConfiguration(wave);
+  const waveDefinition = getWaveDefinition(context.waves, gameState.wave);
 
   // Set wave enemy count - for continuous spawning, we'll use this as enemies per minute or similar
-  gameState.waveEnemyCount = waveConfig.enemyCount;
+  gameState.waveEnemyCount = waveDefinition.enemyCount;
   gameState.waveEnemiesDefeated = 0;
 
   // Reset pause between waves flag for immediate start
   gameState.isPausedBetweenWaves = false;
 
-  let enemiesSpawned = 0;
+  // The wave's timeline starts now
+  gameState.spawnTimelineStart = context.clock.now();
+  gameState.nextTimelineEntry = 0;
+};
+
+/**
+ * Send in the formations whose time in the wave's timeline has been reached on the simulation clock.
+ * The timeline starts over once it has run out, until the wave is cleared.
+ */
+export const updateEnemySpawning = (
+  gameState: GameState,
+  canvasWidth: number,
+  canvasHeight: number,
+  context: SimulationContext
+): void => {
+  if (gameState.isGameOver) return;
+
+  const wave = gameState.wave;
+  const waveDefinition = getWaveDefinition(context.waves, wave);
 
-  // Clear any existing spawn timer
-  clearInterval(spawnTimerId.value);
+  // Keep spawning indefinitely, but cap how many enemies can be on screen to avoid overwhelming
+  const maxActiveEnemies = Math.max(8, waveDefinition.enemyCount); // At least 8, more for higher waves
 
-  // Continuous spawning - spawn enemies at regular intervals indefinitely
-  // No more wave countdown, just keep spawning until enemies are defeated
-  spawnTimerId.value = window.setInterval(() => {
-    // Check if game is paused or over
-    if (gameState.isGameOver || (isEffectivelyPaused && isEffectivelyPaused())) {
-      return; // Don't spawn enemies when paused, but don't clear the timer
+  // A boss brings its own minions, so regular spawns hold off while one is alive
+  const isBossAlive = gameState.enemies.some(enemy => enemy.boss);
+
+  const { timeline, timelineDuration } = waveDefinition;
+  const now = context.clock.now();
+
+  while (true) {
+    if (gameState.nextTimelineEntry >= timeline.length) {
+      if (now < gameState.spawnTimelineStart + timelineDuration) break;
+      gameState.spawnTimelineStart += timelineDuration;
+      gameState.nextTimelineEntry = 0;
+      continue;
     }
 
-    // For continuous spawning, we can keep spawning enemies
-    // but reduce frequency as more enemies are on screen to avoid overwhelming
-    const activeEnemies = gameState.enemies.length;
-    const maxActiveEnemies = Math.max(8, waveConfig.enemyCount); // At least 8, more for higher waves
+    const entry = timeline[gameState.nextTimelineEntry];
+    if (now < gameState.spawnTimelineStart + entry.at) break;
 
-    if (activeEnemies < maxActiveEnemies) {
-      spawnEnemy(gameState, canvasWidth, canvasHeight, wave, waveConfig);
-      enemiesSpawned++;
+    if (!isBossAlive) {
+      const spawns = getFormationSpawns(entry.formation, canvasWidth, canvasHeight, gameState.player, context.rng);
+      for (const spawn of spawns) {
+        if (gameState.enemies.length >= maxActiveEnemies) break;
+        spawnEnemy(gameState, canvasWidth, canvasHeight, spawn, spawns.length > 1, wave, waveDefinition, context);
+      }
     }
-  }, waveConfig.spawnInterval);
+    gameState.nextTimelineEntry++;
+  }
+};
+
+// Words on screen a new word should not start like (replacingEnemyId excludes the enemy's own words).
+// A splitter's parts count too, since its children take them when it dies.
+const getWordsOnScreen = (gameState: GameState, replacingEnemyId: number | null): string[] => {
+  return [
+    ...gameState.enemies
+      .filter(enemy => enemy.id !== replacingEnemyId)
+      .flatMap(enemy => [...(enemy.shieldWord ? [enemy.shieldWord] : []), enemy.word, ...(enemy.splitParts ?? [])]),
+    ...gameState.relicStars.map(star => star.word),
+    ...gameState.missiles.map(missile => missile.word)
+  ];
 };
 
 /**
- * Pause or resume enemy spawning
+ * The word to type to target an enemy: its shield word while armored, its main word otherwise
  */
-export const pauseEnemySpawning = (spawnTimerId: { value: number }): void => {
-  clearInterval(spawnTimerId.value);
+export const getTypingWord = (enemy: Enemy): string => {
+  return enemy.shieldWord || enemy.word;
 };
 
 /**
- * Resume enemy spawning with saved state
+ * Pick a word for an enemy: its length follows the wave and the enemy's rank,
+ * and it never starts like a word already on screen (replacingEnemyId excludes the enemy's own word)
  */
-export const resumeEnemySpawning = (
+export const pickEnemyWord = (
   gameState: GameState,
-  canvasWidth: number,
-  canvasHeight: number,
-  onCreateExplosion: (x: number, y: number, color: string, radius: number, damage: number) => void,
-  onCreateDamageNumber: (x: number, y: number, value: number, color: string, isCritical: boolean, text: string) => void,
-  spawnTimerId: { value: number },
-  isEffectivelyPaused?: () => boolean
-): void => {
-  // Resume spawning with current wave configuration
-  if (!gameState.isGameOver && gameState.isPlaying) {
-    startWave(gameState, canvasWidth, canvasHeight, onCreateExplosion, onCreateDamageNumber, spawnTimerId, isEffectivelyPaused);
+  context: SimulationContext,
+  isElite: boolean,
+  isBoss: boolean,
+  replacingEnemyId: number | null = null
+): string => {
+  const waveDefinition = getWaveDefinition(context.waves, gameState.wave);
+
+  return getRandomWord(context.words, context.rng, {
+    tierWeights: getEnemyWordTierWeights(waveDefinition.wordTiers, isElite, isBoss),
+    avoid: getWordsOnScreen(gameState, replacingEnemyId)
+  });
+};
+
+/**
+ * Pick a shield word for an armored enemy, starting differently from its main word and the words on screen
+ */
+export const pickShieldWord = (
+  gameState: GameState,
+  context: SimulationContext,
+  mainWord: string
+): string => {
+  const waveDefinition = getWaveDefinition(context.waves, gameState.wave);
+
+  return getRandomWord(context.words, context.rng, {
+    tierWeights: waveDefinition.wordTiers,
+    avoid: [...getWordsOnScreen(gameState, null), mainWord]
+  });
+};
+
+/**
+ * Pick a 2-3 letter word for a missile
+ */
+export const pickMissileWord = (gameState: GameState, context: SimulationContext): string => {
+  return getRandomMissileWord(context.words, context.rng, getWordsOnScreen(gameState, null));
+};
+
+/**
+ * Pick a compound word for a splitter, or null when none can be used right now
+ */
+export const pickCompoundWord = (
+  gameState: GameState,
+  context: SimulationContext,
+  replacingEnemyId: number | null = null
+): CompoundWord | null => {
+  return getRandomCompoundWord(context.words, context.rng, getWordsOnScreen(gameState, replacingEnemyId));
+};
+
+/**
+ * Create the children of a dead splitter: one smaller enemy per part of its word,
+ * side by side at the splitter's position and keeping its heading
+ */
+export const createSplitChildren = (
+  gameState: GameState,
+  parent: Enemy,
+  context: SimulationContext
+): Enemy[] => {
+  const parts = parent.splitParts ?? [];
+  const speed = Math.sqrt(parent.velocityX * parent.velocityX + parent.velocityY * parent.velocityY);
+
+  // Spread the children across the heading so they don't overlap
+  const sideX = speed > 0 ? -parent.velocityY / speed : 0;
+  const sideY = speed > 0 ? parent.velocityX / speed : 1;
+  const spacing = parent.radius * 1.2;
+
+  return parts.map((part, index) => {
+    const offset = (index - (parts.length - 1) / 2) * spacing;
+    const x = parent.x + sideX * offset;
+    const y = parent.y + sideY * offset;
+    const health = Math.max(1, Math.ceil(parent.maxHealth / 2));
+
+    return {
+      ...parent,
+      id: gameState.nextEntityId++,
+      x,
+      y,
+      prevX: x,
+      prevY: y,
+      word: part,
+      radius: Math.round(parent.radius * 0.7),
+      health,
+      maxHealth: health,
+      pointValue: Math.ceil(parent.pointValue / 2),
+      shape: 'circle',
+      enemyType: 'normal',
+      splitParts: undefined,
+      isSplitChild: true,
+      // A Splitting elite's children are regular enemies
+      isElite: false,
+      affixes: undefined,
+      affixPower: undefined,
+      movement: parent.movement && { ...parent.movement },
+      // Children start without the parent's status effects
+      color: parent.isFrozen ? parent.color.replace('88', '') : parent.color,
+      isFrozen: false,
+      frozenUntil: null,
+      speed: parent.originalSpeed,
+      isBurning: false,
+      burnUntil: null,
+      burnDamage: 0,
+      burnTickInterval: 0,
+      nextBurnTick: null,
+      wardedUntil: null,
+      isHasted: false,
+      isHighlighted: false,
+      typedProgress: 0,
+      wrongTypingFlash: 0,
+      spawnTime: context.clock.now()
+    };
+  });
+};
+
+/**
+ * Create the children of a dead Splitting elite, each with a word of its own
+ */
+export const createAffixSplitChildren = (
+  gameState: GameState,
+  parent: Enemy,
+  context: SimulationContext
+): Enemy[] => {
+  const waveDefinition = getWaveDefinition(context.waves, gameState.wave);
+  const words: string[] = [];
+  for (let i = 0; i < SPLITTING_CHILD_COUNT; i++) {
+    words.push(getRandomWord(context.words, context.rng, {
+      tierWeights: getEnemyWordTierWeights(waveDefinition.wordTiers, false, false),
+      avoid: [...getWordsOnScreen(gameState, null), ...words]
+    }));
+  }
+  return createSplitChildren(gameState, { ...parent, splitParts: words }, context);
+};
+
+/**
+ * Whether an enemy has rolled an elite affix
+ */
+export const hasAffix = (enemy: Enemy, affix: EliteAffix): boolean => {
+  return !!enemy.affixes?.includes(affix);
+};
+
+/**
+ * Shield damage a Reflective elite returns for a bouncing hit, 0 for any other hit
+ */
+export const getReflectedDamage = (
+  enemy: Enemy,
+  damage: number,
+  projectileType: 'normal' | 'bouncing' | 'multishot' | 'ice' | 'fire' | undefined
+): number => {
+  if (projectileType !== 'bouncing' || !hasAffix(enemy, 'reflective')) return 0;
+  return Math.round(damage * REFLECT_FRACTION * (enemy.affixPower ?? 1));
+};
+
+// Roll distinct affixes for an elite, more of them in deeper waves
+const rollEliteAffixes = (wave: number, rng: RandomSource): EliteAffix[] => {
+  const affixes = [...ELITE_AFFIX_IDS];
+  for (let i = affixes.length - 1; i > 0; i--) {
+    const j = Math.floor(rng.next() * (i + 1));
+    [affixes[i], affixes[j]] = [affixes[j], affixes[i]];
   }
+  return affixes.slice(0, getEliteAffixCount(wave));
 };
 
-// Helper function to spawn an enemy
+// Helper function to spawn an enemy at a formation spawn point (formation members keep formation by homing straight in)
 const spawnEnemy = (
   gameState: GameState,
   canvasWidth: number,
   canvasHeight: number,
+  spawn: FormationSpawn,
+  inFormation: boolean,
   wave: number,
-  waveConfig: any
+  waveDefinition: WaveDefinition,
+  context: SimulationContext
 ): void => {
-  // Determine enemy type
-  const rand = Math.random();
-  let isElite = false;
-  let isBoss = false;
-
-  if (rand < waveConfig.bossChance) {
-    isBoss = true;
-  } else if (rand < waveConfig.bossChance + waveConfig.eliteChance) {
-    isElite = true;
-  }
+  const { rng } = context;
+  const { x, y, spawnSide } = spawn;
 
-  // Generate spawn position (from edges)
-  const margin = 50;
-  const side = Math.floor(Math.random() * 4);
-  let x, y;
-  let spawnSide: 'top' | 'right' | 'bottom' | 'left';
-
-  switch (side) {
-    case 0: // Top
-      x = Math.random() * canvasWidth;
-      y = -margin;
-      spawnSide = 'top';
-      break;
-    case 1: // Right
-      x = canvasWidth + margin;
-      y = Math.random() * canvasHeight;
-      spawnSide = 'right';
-      break;
-    case 2: // Bottom
-      x = Math.random() * canvasWidth;
-      y = canvasHeight + margin;
-      spawnSide = 'bottom';
-      break;
-    case 3: // Left
-    default:
-      x = -margin;
-      y = Math.random() * canvasHeight;
-      spawnSide = 'left';
-      break;
-  }
+  // Determine enemy type (bosses only appear in scripted encounters)
+  const isElite = rng.next() < waveDefinition.mix.elite;
 
-  // Generate enemy
-  const word = getRandomWord();
-  const color = isElite ? '#9c27b0' : isBoss ? '#f44336' : '#ff9800';
-  let speed = isBoss ? 15 : isElite ? 25 : 30;
+  // Splitters carry a compound word that breaks into its parts
+  const compound = !isElite && rng.next() < waveDefinition.mix.splitter
+    ? pickCompoundWord(gameState, context)
+    : null;
 
-  // Apply Time Distortion effect if player has it
-  if (gameState.player.hasTimeDistortion) {
-    speed *= 0.7; // Reduce speed by 30%
-  }
+  // Generate enemy
+  const word = compound ? compound.word : pickEnemyWord(gameState, context, isElite, false);
+
+  // Armored enemies have to be stripped with a shield word first (splitters never are)
+  const shieldWord = !compound && rng.next() < waveDefinition.mix.armored
+    ? pickShieldWord(gameState, context, word)
+    : null;
+  // Ranged enemies stay plain regular enemies, so there's only ever one twist to deal with
+  const isRanged = !isElite && !compound && !shieldWord && rng.next() < waveDefinition.mix.ranged;
+  const supportRole = !isElite && !compound && !shieldWord && !isRanged && rng.next() < waveDefinition.mix.support
+    ? pickRandom(rng, SUPPORT_ROLE_IDS)
+    : null;
+  const stealthMode = !isElite && !compound && !shieldWord && !isRanged && !supportRole &&
+    rng.next() < waveDefinition.mix.stealth
+    ? pickRandom(rng, STEALTH_MODES)
+    : null;
+  const color = isElite ? '#9c27b0' : '#ff9800';
+  // Support enemies hang back behind the pack they're empowering
+  const speed = isElite ? 25 : supportRole ? 22 : 30;
 
   const enemy = createEnemy(
-    Date.now() + Math.random(),
+    gameState.nextEntityId++,
     x,
     y,
     word,
@@ -147,95 +332,198 @@ const spawnEnemy = (
     canvasWidth,
     canvasHeight,
     wave,
+    getBaseHealth(context.waves.healthCurve, wave),
     isElite,
-    isBoss,
+    false,
     spawnSide,
-    gameState.player
+    gameState.player,
+    rng,
+    compound ? compound.parts : null
   );
+  enemy.spawnTime = context.clock.now();
+  if (shieldWord) {
+    enemy.shieldWord = shieldWord;
+  }
+
+  if (isElite) {
+    enemy.affixes = rollEliteAffixes(wave, rng);
+    enemy.affixPower = getEliteAffixPower(wave);
+    // Every affix makes an elite worth more
+    enemy.pointValue = Math.floor(enemy.pointValue * (1 + enemy.affixes.length * 0.25));
+    if (hasAffix(enemy, 'swift')) {
+      enemy.speed *= 1 + SWIFT_SPEED_BONUS * enemy.affixPower;
+      enemy.originalSpeed = enemy.speed;
+    }
+  }
+
+  if (isRanged) {
+    enemy.ranged = {
+      standoffRadius: RANGED_STANDOFF_RADIUS + rng.next() * RANGED_STANDOFF_VARIANCE,
+      fireInterval: Math.max(2500, 4500 - wave * 100),
+      nextFireAt: context.clock.now() // Fires as soon as it's in position
+    };
+  }
+
+  if (supportRole) {
+    enemy.support = {
+      role: supportRole,
+      nextPulseAt: context.clock.now() + SUPPORT_FIRST_PULSE_DELAY
+    };
+  }
+
+  if (stealthMode) {
+    const dx = x - gameState.player.x;
+    const dy = y - gameState.player.y;
+    enemy.stealth = {
+      mode: stealthMode,
+      revealRadius: STEALTH_REVEAL_RADIUS,
+      startDistance: Math.sqrt(dx * dx + dy * dy),
+      displayWord: '_'.repeat(word.length) // Filled in on the enemy's first step
+    };
+  }
+
+  const behavior = inFormation ? 'direct' : pickMovementBehavior(waveDefinition.movement, rng);
+  if (behavior !== 'direct') {
+    enemy.movement = createEnemyMovement(behavior, rng, context.clock.now());
+  }
 
   gameState.enemies.push(enemy);
 };
 
+const STEALTH_REVEAL_RADIUS = 220; // Stealth enemies show their whole word this close to the player
+const SUPPORT_FIRST_PULSE_DELAY = 2000; // Support enemies settle in before their first pulse
+const RANGED_STANDOFF_RADIUS = 260; // Ranged enemies stop between this far from the player...
+const RANGED_STANDOFF_VARIANCE = 80; // ...and this much further out
+const MISSILE_SPEED = 110; // Pixels per second
+const MISSILE_DAMAGE = 15;
+
 /**
- * Pause between waves for upgrade selection
+ * Launch a missile from a ranged enemy straight at the player
  */
-export const pauseBetweenWaves = (
-  gameState: GameState,
-  availableSkillChoices: { value: Skill[] },
-  spawnTimerId: { value: number },
-  autoFireTimerId: { value: number }
-): void => {
-  gameState.isPausedBetweenWaves = true;
-
-  // Clear timers
-  clearInterval(spawnTimerId.value);
-  clearInterval(autoFireTimerId.value);
-
-  // Generate skill choices
-  availableSkillChoices.value = getRandomSkills(gameState.availableSkills);
+export const fireMissile = (gameState: GameState, enemy: Enemy, context: SimulationContext): Missile => {
+  const { player } = gameState;
+  const dx = player.x - enemy.x;
+  const dy = player.y - enemy.y;
+  const distance = Math.sqrt(dx * dx + dy * dy) || 1;
+
+  const missile: Missile = {
+    id: gameState.nextEntityId++,
+    x: enemy.x,
+    y: enemy.y,
+    prevX: enemy.x,
+    prevY: enemy.y,
+    word: pickMissileWord(gameState, context),
+    velocityX: dx / distance * MISSILE_SPEED,
+    velocityY: dy / distance * MISSILE_SPEED,
+    radius: 8,
+    damage: MISSILE_DAMAGE,
+    sourceEnemyId: enemy.id,
+    typedProgress: 0
+  };
+
+  gameState.missiles.push(missile);
+  return missile;
 };
 
+const BOSS_SPAWN_OFFSET = 120; // Bosses appear this far below the top edge, clear of the HUD
+
 /**
- * Select a skill upgrade
+ * Spawn a scripted boss near the top of the screen, starting on the first word of its first phrase
  */
-export const selectSkill = (
-  skill: Skill,
+export const spawnBoss = (
   gameState: GameState,
+  definition: BossDefinition,
   canvasWidth: number,
   canvasHeight: number,
-  onEnemySpawned: () => void,
-  onWaveComplete: () => void,
-  spawnTimerId: { value: number },
-  isEffectivelyPaused?: () => boolean
-): void => {
-  // Find the actual skill in the game state and level it up
-  const gameStateSkill = gameState.availableSkills.find(s => s.id === skill.id);
-  if (gameStateSkill) {
-    gameStateSkill.level++;
-    gameStateSkill.applyEffect(gameState.player);
-  }
-
-  // Start the next wave
-  startWave(
-    gameState,
+  context: SimulationContext
+): Enemy => {
+  const boss = createEnemy(
+    gameState.nextEntityId++,
+    canvasWidth / 2,
+    definition.radius + BOSS_SPAWN_OFFSET,
+    getPhraseWords(definition.phases[0])[0],
+    definition.color,
+    definition.speed,
     canvasWidth,
     canvasHeight,
-    onEnemySpawned,
-    onWaveComplete,
-    spawnTimerId,
-    isEffectivelyPaused
+    gameState.wave,
+    getBaseHealth(context.waves.healthCurve, gameState.wave),
+    false,
+    true,
+    'top',
+    gameState.player,
+    context.rng
   );
+
+  const health = getBossSegmentCount(definition) * BOSS_SEGMENT_HEALTH;
+  boss.health = health;
+  boss.maxHealth = health;
+  boss.radius = definition.radius;
+  boss.color = definition.color;
+  boss.spawnTime = context.clock.now();
+  boss.boss = {
+    definitionId: definition.id,
+    phaseIndex: 0,
+    wordIndex: 0,
+    wordShownAt: context.clock.now(),
+    isScrambled: false,
+    speedBurstUntil: null
+  };
+
+  gameState.enemies.push(boss);
+  return boss;
 };
 
 /**
- * Level up the player
+ * Summon minions in a ring around a boss, heading for the player like regular enemies
  */
-export const levelUpPlayer = (
-  player: Player,
-  onLevelUp: () => void,
+export const summonMinions = (
   gameState: GameState,
-  availableSkillChoices: { value: Skill[] }
+  boss: Enemy,
+  count: number,
+  canvasWidth: number,
+  canvasHeight: number,
+  context: SimulationContext
 ): void => {
-  // Increase level
-  player.level++;
-
-  // Reset XP and increase XP required for next level
-  player.xp = 0;
-  player.xpToNextLevel = Math.floor(player.xpToNextLevel * 1.2);
-
-  // Increase base stats
-  player.damage += 2;
-  player.maxShield += 10;
-  player.shield = player.maxShield;
-
-  // Trigger level up effect
-  onLevelUp();
+  for (let i = 0; i < count; i++) {
+    const angle = (Math.PI * 2 / count) * i;
+    const distance = boss.radius + 40;
+
+    const minion = createEnemy(
+      gameState.nextEntityId++,
+      boss.x + Math.cos(angle) * distance,
+      boss.y + Math.sin(angle) * distance,
+      pickEnemyWord(gameState, context, false, false),
+      '#ff9800',
+      40,
+      canvasWidth,
+      canvasHeight,
+      gameState.wave,
+      getBaseHealth(context.waves.healthCurve, gameState.wave),
+      false,
+      false,
+      boss.spawnSide,
+      gameState.player,
+      context.rng
+    );
+    minion.spawnTime = context.clock.now();
+    gameState.enemies.push(minion);
+  }
+};
 
-  // Pause game for skill selection on level up
-  gameState.isPausedForLevelUp = true;
+/**
+ * Shuffle the letters of a word into a different order
+ */
+export const scrambleWord = (word: string, rng: RandomSource): string => {
+  const letters = word.split('');
+  for (let i = letters.length - 1; i > 0; i--) {
+    const j = Math.floor(rng.next() * (i + 1));
+    [letters[i], letters[j]] = [letters[j], letters[i]];
+  }
 
-  // Generate skill choices
-  availableSkillChoices.value = getRandomSkills(gameState.availableSkills);
+  const scrambled = letters.join('');
+  // A shuffle can land on the original order - rotate it by one letter instead
+  return scrambled === word ? word.slice(1) + word[0] : scrambled;
 };
 
 /**
@@ -246,31 +534,40 @@ export const applyDamageToEnemy = (
   damage: number,
   isCritical: boolean,
   isMainShot: boolean,
-  projectileType?: 'normal' | 'bouncing' | 'multishot' | 'ice' | 'fire'
+  projectileType: 'normal' | 'bouncing' | 'multishot' | 'ice' | 'fire' | undefined,
+  context: SimulationContext
 ): boolean => {
+  const now = context.clock.now();
   enemy.health -= damage;
 
   // Apply special effects based on projectile type
   if (projectileType === 'ice') {
     // Apply freeze effect
     enemy.isFrozen = true;
-    enemy.frozenUntil = Date.now() + 3000; // 3 seconds freeze
+    enemy.frozenUntil = now + 3000; // 3 seconds freeze
     enemy.originalSpeed = enemy.speed;
     enemy.speed = enemy.speed * 0.3; // Slow to 30% speed
   } else if (projectileType === 'fire') {
     // Apply burn effect with 30% chance
-    if (Math.random() < 0.3) {
-      enemy.isBurning = true;
-      enemy.burnUntil = Date.now() + 3000; // 3 seconds burn
-      enemy.burnDamage = damage * 0.2; // 20% of original damage per tick
-      enemy.burnTickInterval = 500; // Burn every 0.5 seconds
-      enemy.nextBurnTick = Date.now() + enemy.burnTickInterval;
+    if (context.rng.next() < 0.3) {
+      igniteEnemy(enemy, damage, now);
     }
   }
 
   return enemy.health <= 0;
 };
 
+/**
+ * Set an enemy burning, from the damage of the hit that lit it
+ */
+export const igniteEnemy = (enemy: Enemy, damage: number, now: number): void => {
+  enemy.isBurning = true;
+  enemy.burnUntil = now + 3000; // 3 seconds burn
+  enemy.burnDamage = damage * 0.2; // 20% of original damage per tick
+  enemy.burnTickInterval = 500; // Burn every 0.5 seconds
+  enemy.nextBurnTick = now + enemy.burnTickInterval;
+};
+
 /**
  * Auto-fire at enemies
  */
@@ -286,6 +583,9 @@ export const autoFireAtEnemies = (
   const typedEnemies: Enemy[] = [];
 
   for (const enemy of gameState.enemies) {
+    // Armor and bosses would block the shot, so they aren't targeted
+    if (enemy.shieldWord || enemy.boss) continue;
+
     if (currentTypedText && enemy.word.toLowerCase().startsWith(currentTypedText.toLowerCase())) {
       typedEnemies.push(enemy);
     } else {
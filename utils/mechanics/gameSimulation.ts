@@ -0,0 +1,2186 @@
+/**
+ * Game simulation
+ * Headless game engine: owns the whole simulated world and advances it with step(dtMs, inputs).
+ * Uses no browser globals, so it runs the same in the browser, in Node scripts and on the server.
+ */
+import type {
+  GameState,
+  Enemy,
+  Skill,
+  Relic,
+  RelicStar,
+  Missile,
+  ActiveSkill,
+  ActiveSkillEffects,
+  RelicEffects,
+  LevelUpSkipReward
+} from '../gameModels';
+import {
+  createInitialGameState,
+  generateRelics,
+  getRandomRelic,
+  createRelicStar,
+  getRandomSkills,
+  getBossDefinitionById,
+  getPhraseWords,
+  BOSS_SEGMENT_HEALTH,
+  SUPPORT_ROLES,
+  HEAL_FRACTION,
+  WARD_DURATION,
+  ELITE_AFFIXES,
+  VAMPIRIC_HEAL_FRACTION,
+  EXPLOSION_DAMAGE,
+  EXPLOSION_RADIUS,
+  COMMAND_WORDS,
+  isActiveSkillUnlocked,
+  SKIP_SHIELD_BONUS,
+  SKIP_XP_FRACTION,
+  THERMAL_SHOCK_MULTIPLIER,
+  hasSynergy,
+  getNewSynergies,
+  getKillsRequired
+} from '../gameModels';
+import {
+  type Projectile,
+  type Explosion,
+  type DamageNumber,
+  createExplosion as importedCreateExplosion,
+  createDamageNumber as importedCreateDamageNumber,
+  createProjectile,
+  updateExplosions,
+  updateDamageNumbers,
+  updateProjectiles
+} from '../effects/gameEffects';
+import {
+  startWave as startWaveMechanic,
+  updateEnemySpawning,
+  applyDamageToEnemy as applyDamageToEnemyMechanic,
+  igniteEnemy,
+  autoFireAtEnemies,
+  pickEnemyWord,
+  pickCompoundWord,
+  createSplitChildren,
+  getTypingWord,
+  spawnBoss,
+  summonMinions,
+  scrambleWord,
+  fireMissile,
+  hasAffix,
+  getReflectedDamage,
+  createAffixSplitChildren
+} from './gameMechanics';
+import { updateEnemyMovement } from './enemyMovement';
+import { addRelic, removeRelic, resolvePlayerStats, getRelicHooks } from './relicEffects';
+import { updateEnemyStealth } from './enemyStealth';
+import {
+  type SimulationContext,
+  createSimulationContext,
+  createRunSeed
+} from './simulationCore';
+import {
+  type TypingMetrics,
+  createTypingMetrics,
+  recordKeystroke,
+  recordTypingError,
+  recordBackspace,
+  recordCompletedWord,
+  updateTypingMetrics
+} from './typingMetrics';
+import {
+  type RunSnapshot,
+  SNAPSHOT_FORMAT_VERSION,
+  serializeWorld,
+  deserializeWorld
+} from './runSnapshot';
+import {
+  type WordList,
+  type WordProvider,
+  createWordProvider,
+  createTrainingFocusProvider,
+  createReservedWordProvider,
+  defaultWordList
+} from '../wordGenerator';
+import { type WaveSet, defaultWaveSet, getWaveDefinition } from '../waveScript';
+
+/**
+ * A player input fed to the simulation
+ */
+export type SimulationInput =
+  | { type: 'key'; key: string }
+  | { type: 'selectSkill'; skillId: string }
+  | { type: 'rerollSkills' }
+  | { type: 'banishSkill'; skillId: string }
+  | { type: 'skipLevelUp'; reward: LevelUpSkipReward }
+  | { type: 'closeRelic' }
+  | { type: 'discardRelic'; relicId: string }
+  | { type: 'togglePause' };
+
+/**
+ * An input together with the simulation tick it was applied at
+ */
+export interface RecordedInput {
+  tick: number;
+  input: SimulationInput;
+}
+
+/**
+ * Key values of a run at a tick, so a replay can tell where it stopped matching the original run
+ */
+export interface RunCheckpoint {
+  tick: number;
+  time: number;
+  rngState: number;
+  score: number;
+  wave: number;
+  level: number;
+  enemiesKilled: number;
+  enemyCount: number;
+  shield: number;
+}
+
+/**
+ * Choices made before a run starts that change how it plays
+ */
+export interface RunOptions {
+  wordList?: WordList | null; // Custom words to type, null for the built-in list
+  trainingFocus?: boolean; // Favor words with the keys the player misses most
+  waveSet?: WaveSet | null; // Custom wave definitions, null for the built-in set
+}
+
+/**
+ * Everything needed to reproduce a run: its seed, options and every input it received
+ */
+export interface RunRecording {
+  version: number; // Recording format version
+  seed: number;
+  options: RunOptions;
+  canvasWidth: number;
+  canvasHeight: number;
+  timestepMs: number; // Length of each simulated tick
+  totalTicks: number;
+  inputs: RecordedInput[];
+  checkpoints: RunCheckpoint[]; // Taken every CHECKPOINT_INTERVAL_TICKS ticks
+}
+
+/**
+ * A shot waiting to be fired at a later simulation time (multi-shot stagger, auto-fire lock-on)
+ */
+export interface PendingShot {
+  fireAt: number;
+  targetEnemyId: number;
+  damage: number;
+  isCritical: boolean;
+  isMultiShot: boolean;
+  isMainShot: boolean;
+  shotType: 'normal' | 'bouncing' | 'multishot';
+}
+
+/**
+ * Everything the simulation owns for a single run
+ */
+export interface SimulationWorld {
+  gameState: GameState;
+  isPaused: boolean;
+  isRelicAnnouncementPaused: boolean;
+  // Visual effects state
+  projectiles: Projectile[];
+  explosions: Explosion[];
+  damageNumbers: DamageNumber[];
+  // Auto-fire system state
+  autoFireTarget: Enemy | null;
+  autoFireLaserOpacity: number;
+  autoFireTargetClearTime: number | null;
+  pendingShots: PendingShot[];
+  // Level up state
+  availableSkillChoices: Skill[];
+  // Relic system state
+  nextRelicStarSpawn: number;
+  highlightedRelicStarId: number | null;
+  announcedRelic: Relic | null;
+  // Typing state
+  currentTypedText: string;
+  highlightedEnemyId: number | null;
+  wrongTypingEffect: number; // For visual feedback on wrong typing
+  typingMetrics: TypingMetrics;
+}
+
+/**
+ * Options for creating a simulation
+ */
+export interface GameSimulationOptions {
+  canvasWidth: number;
+  canvasHeight: number;
+  // Wraps the world object, e.g. Vue's reactive() so the UI can track it
+  wrapState?: <T extends object>(state: T) => T;
+}
+
+/**
+ * Length of one fixed simulation step (120 Hz logic)
+ */
+export const SIMULATION_TIMESTEP_MS = 1000 / 120;
+
+export const RECORDING_FORMAT_VERSION = 1;
+
+/**
+ * Number of ticks between run checkpoints (10 seconds of game time)
+ */
+export const CHECKPOINT_INTERVAL_TICKS = 1200;
+
+const VICTORY_TIME = 1200000; // 20 minutes
+const BOSS_KNOCKBACK_DISTANCE = 300; // How far from the player a boss is thrown after ramming it
+
+/**
+ * Create an empty world for a run
+ */
+const createWorld = (canvasWidth: number, canvasHeight: number, seed: number = 0): SimulationWorld => {
+  return {
+    gameState: createInitialGameState(canvasWidth, canvasHeight, seed),
+    isPaused: false,
+    isRelicAnnouncementPaused: false,
+    projectiles: [],
+    explosions: [],
+    damageNumbers: [],
+    autoFireTarget: null,
+    autoFireLaserOpacity: 0,
+    autoFireTargetClearTime: null,
+    pendingShots: [],
+    availableSkillChoices: [],
+    nextRelicStarSpawn: 0,
+    highlightedRelicStarId: null,
+    announcedRelic: null,
+    currentTypedText: '',
+    highlightedEnemyId: null,
+    wrongTypingEffect: 0,
+    typingMetrics: createTypingMetrics()
+  };
+};
+
+export class GameSimulation {
+  readonly canvasWidth: number;
+  readonly canvasHeight: number;
+  readonly world: SimulationWorld;
+
+  private rawWorld: SimulationWorld; // The world without the wrapper, same object when not wrapped
+  private state: SimulationWorld; // The world the simulation is currently writing to
+  private context: SimulationContext;
+  private runOptions: RunOptions = {};
+  private availableRelics: Relic[] = generateRelics();
+  private deltaTime = 0; // Seconds simulated by the current step
+  private stepDurationMs = SIMULATION_TIMESTEP_MS; // Length of the most recent step
+  private currentTick = 0; // Number of steps that advanced the game
+  private recordedInputs: RecordedInput[] = [];
+  private recordedCheckpoints: RunCheckpoint[] = [];
+
+  constructor(options: GameSimulationOptions) {
+    this.canvasWidth = options.canvasWidth;
+    this.canvasHeight = options.canvasHeight;
+    this.context = createSimulationContext(0, createWordProvider(defaultWordList), defaultWaveSet);
+
+    const world = createWorld(this.canvasWidth, this.canvasHeight);
+    this.rawWorld = world;
+    this.world = options.wrapState ? options.wrapState(world) : world;
+    this.state = this.world;
+  }
+
+  // Shorthand for the current run's game state
+  private get gameState(): GameState {
+    return this.state.gameState;
+  }
+
+  // Number of steps that advanced the game (paused steps don't count)
+  get tick(): number {
+    return this.currentTick;
+  }
+
+  // Checkpoints taken so far this run
+  get checkpoints(): readonly RunCheckpoint[] {
+    return this.recordedCheckpoints;
+  }
+
+  /**
+   * Start a new run, optionally from a known seed and options to reproduce it
+   */
+  start(seed: number = createRunSeed(), options: RunOptions = {}): void {
+    this.runOptions = options;
+    this.context = createSimulationContext(seed, this.createWordProvider(options), options.waveSet ?? defaultWaveSet);
+    this.availableRelics = generateRelics();
+    this.currentTick = 0;
+    this.recordedInputs = [];
+    this.recordedCheckpoints = [];
+
+    // Reset the world in place so wrapped (reactive) references stay valid
+    Object.assign(this.state, createWorld(this.canvasWidth, this.canvasHeight, seed));
+    this.gameState.isPlaying = true;
+    this.gameState.startTime = this.context.clock.now(); // Set game start time
+
+    // Initialize relic spawn system on the wave set's schedule
+    this.state.nextRelicStarSpawn = this.context.clock.now() + this.context.waves.relicStars.firstAt;
+
+    // Start first wave
+    this.startWave(1);
+  }
+
+  /**
+   * Apply inputs, then advance the simulation by dtMs of game time
+   */
+  step(dtMs: number, inputs: SimulationInput[] = []): void {
+    for (const input of inputs) {
+      this.applyInput(input);
+    }
+
+    // Only update game state if not effectively paused and game is active
+    if (!this.isEffectivelyPaused() && this.gameState.isPlaying && !this.gameState.isGameOver) {
+      this.deltaTime = dtMs / 1000;
+      this.stepDurationMs = dtMs;
+      this.update();
+      this.currentTick++;
+
+      if (this.currentTick % CHECKPOINT_INTERVAL_TICKS === 0) {
+        this.recordedCheckpoints.push(this.createCheckpoint());
+      }
+    }
+  }
+
+  /**
+   * Run many steps at once (e.g. seeking a replay) without paying for the wrapper on every change,
+   * then publish the resulting world through the wrapper in one go
+   */
+  runUnwrapped(run: () => void): void {
+    if (this.rawWorld === this.world) {
+      run();
+      return;
+    }
+
+    const before = { ...this.rawWorld };
+    this.state = this.rawWorld;
+    try {
+      run();
+    } finally {
+      this.state = this.world;
+
+      // Restore the old top-level values, then write the new ones through the wrapper so it notices.
+      // The game state is re-created so anything reading nested values refreshes as well.
+      const after = { ...this.rawWorld, gameState: { ...this.rawWorld.gameState } };
+      Object.assign(this.rawWorld, before);
+      Object.assign(this.world, after);
+    }
+  }
+
+  /**
+   * Recording of the current run so far
+   */
+  getRecording(): RunRecording {
+    return {
+      version: RECORDING_FORMAT_VERSION,
+      seed: this.gameState.seed,
+      options: this.runOptions,
+      canvasWidth: this.canvasWidth,
+      canvasHeight: this.canvasHeight,
+      timestepMs: this.stepDurationMs,
+      totalTicks: this.currentTick,
+      inputs: this.recordedInputs.map(recorded => ({ tick: recorded.tick, input: { ...recorded.input } })),
+      checkpoints: this.recordedCheckpoints.map(checkpoint => ({ ...checkpoint }))
+    };
+  }
+
+  /**
+   * Snapshot of the run so far, to be saved and continued later
+   */
+  createSnapshot(): RunSnapshot {
+    const { inputs, checkpoints } = this.getRecording();
+
+    return {
+      version: SNAPSHOT_FORMAT_VERSION,
+      savedAt: Date.now(),
+      canvasWidth: this.canvasWidth,
+      canvasHeight: this.canvasHeight,
+      timestepMs: this.stepDurationMs,
+      tick: this.currentTick,
+      time: this.context.clock.now(),
+      rngState: this.context.rng.getState(),
+      options: this.runOptions,
+      inputs,
+      checkpoints,
+      world: serializeWorld(this.state)
+    };
+  }
+
+  /**
+   * Continue a run from a snapshot, exactly where it was taken
+   */
+  restoreSnapshot(snapshot: RunSnapshot): void {
+    if (snapshot.version !== SNAPSHOT_FORMAT_VERSION) {
+      throw new Error(`Unsupported snapshot version: ${snapshot.version}`);
+    }
+    if (snapshot.canvasWidth !== this.canvasWidth || snapshot.canvasHeight !== this.canvasHeight) {
+      throw new Error('Snapshot was taken with a different canvas size');
+    }
+
+    const world = deserializeWorld(snapshot.world);
+
+    this.runOptions = snapshot.options;
+    this.context = createSimulationContext(
+      world.gameState.seed,
+      this.createWordProvider(snapshot.options),
+      snapshot.options.waveSet ?? defaultWaveSet
+    );
+    this.context.rng.setState(snapshot.rngState);
+    this.context.clock.setTime(snapshot.time);
+    this.availableRelics = generateRelics();
+    this.stepDurationMs = snapshot.timestepMs;
+    this.currentTick = snapshot.tick;
+    this.recordedInputs = snapshot.inputs.map(recorded => ({ tick: recorded.tick, input: { ...recorded.input } }));
+    this.recordedCheckpoints = snapshot.checkpoints.map(checkpoint => ({ ...checkpoint }));
+
+    // Replace the world in place so wrapped (reactive) references stay valid
+    Object.assign(this.state, world);
+  }
+
+  // Key values of the run right now
+  private createCheckpoint(): RunCheckpoint {
+    return {
+      tick: this.currentTick,
+      time: this.context.clock.now(),
+      rngState: this.context.rng.getState(),
+      score: this.gameState.score,
+      wave: this.gameState.wave,
+      level: this.gameState.player.level,
+      enemiesKilled: this.gameState.enemiesKilled,
+      enemyCount: this.gameState.enemies.length,
+      shield: this.gameState.player.shield
+    };
+  }
+
+  // Word source for a run's options, keeping clear of the active skills' command words
+  private createWordProvider(options: RunOptions): WordProvider {
+    const provider = createReservedWordProvider(createWordProvider(options.wordList ?? defaultWordList), COMMAND_WORDS);
+    if (!options.trainingFocus) return provider;
+
+    return createTrainingFocusProvider(provider, () => ({
+      keys: this.state.typingMetrics.weakKeys,
+      bigrams: this.state.typingMetrics.weakBigrams
+    }));
+  }
+
+  /**
+   * Apply a single player input, recording it at the current tick
+   */
+  applyInput(input: SimulationInput): void {
+    this.recordedInputs.push({ tick: this.currentTick, input });
+
+    switch (input.type) {
+      case 'key':
+        this.handleKeyPress(input.key);
+        break;
+      case 'selectSkill':
+        this.handleLevelUpConfirmation(input.skillId);
+        break;
+      case 'rerollSkills':
+        this.rerollSkillChoices();
+        break;
+      case 'banishSkill':
+        this.banishSkillChoice(input.skillId);
+        break;
+      case 'skipLevelUp':
+        this.skipLevelUp(input.reward);
+        break;
+      case 'closeRelic':
+        this.closeRelicAnnouncement();
+        break;
+      case 'discardRelic':
+        this.discardRelic(input.relicId);
+        break;
+      case 'togglePause':
+        this.togglePause();
+        break;
+    }
+  }
+
+  // Current simulation time in milliseconds (frozen while paused)
+  getGameTime(): number {
+    return this.context.clock.now();
+  }
+
+  // Check if game is effectively paused (regular pause, relic announcement or level up)
+  isEffectivelyPaused(): boolean {
+    return this.state.isPaused || this.state.isRelicAnnouncementPaused || this.gameState.isPausedForLevelUp;
+  }
+
+  // Update game state
+  private update(): void {
+    const { player, enemies } = this.gameState;
+    const deltaTime = this.deltaTime;
+
+    // Advance the simulation clock - it only moves while the game is running
+    this.context.clock.advance(deltaTime * 1000);
+    const now = this.context.clock.now();
+
+    // Remember where everything was so the renderer can interpolate between steps
+    this.storePreviousPositions();
+
+    // Sample typing speed over time
+    updateTypingMetrics(this.state.typingMetrics, now);
+
+    // Check for victory condition - 20 minutes (1,200,000 milliseconds)
+    if (now - this.gameState.startTime >= VICTORY_TIME) {
+      this.gameState.isGameOver = true;
+      this.gameState.gameWon = true;
+      return; // Exit early to prevent further updates
+    }
+
+    // Fire shots that were scheduled for this point in time
+    this.updatePendingShots();
+
+    // Spawn enemies on the wave's spawn schedule
+    updateEnemySpawning(this.gameState, this.canvasWidth, this.canvasHeight, this.context);
+
+    // Steer bosses and run their scripted phase events
+    this.updateBosses();
+
+    // Ranged enemies in position fire their missiles
+    this.updateRangedEnemies();
+
+    // Support enemies heal, ward and hasten their neighbours
+    this.updateSupportEnemies();
+
+    // Update frozen effects on enemies
+    for (const enemy of [...enemies]) {
+      if (enemy.isFrozen && enemy.frozenUntil && now > enemy.frozenUntil) {
+        // Remove frozen effect
+        enemy.isFrozen = false;
+        enemy.frozenUntil = null;
+        enemy.speed = enemy.originalSpeed;
+        // Remove the frozen color overlay
+        if (enemy.color.includes('88')) {
+          enemy.color = enemy.color.replace('88', '');
+        }
+      }
+
+      // Update burn effects on enemies
+      if (enemy.isBurning && enemy.nextBurnTick && now >= enemy.nextBurnTick) {
+        // Apply burn damage (a ward keeps it off while it lasts)
+        if (!this.isWarded(enemy)) {
+          enemy.health -= enemy.burnDamage;
+          this.createDamageNumber(enemy.x, enemy.y - 10, Math.round(enemy.burnDamage), '#ff4444', false, 'BURN');
+        }
+
+        // Check if burn effect should end
+        if (enemy.burnUntil && now >= enemy.burnUntil) {
+          enemy.isBurning = false;
+          enemy.burnUntil = null;
+          enemy.burnDamage = 0;
+          enemy.nextBurnTick = null;
+        } else {
+          // Schedule next burn tick
+          enemy.nextBurnTick = now + enemy.burnTickInterval;
+        }
+
+        // Check if enemy died from burn
+        if (enemy.health <= 0) {
+          this.handleEnemyKilled(enemy, '#ff4444', 20);
+          // Revalidate typing since the enemy is gone (and a splitter's children may match)
+          this.revalidateTyping();
+        }
+      }
+    }
+
+    // Update relic stars
+    this.updateRelicStars();
+
+    // Spawn new relic stars periodically (only if not paused by a level up during this update)
+    if (!this.isEffectivelyPaused() && now >= this.state.nextRelicStarSpawn) {
+      this.spawnRelicStar();
+      // Schedule the next relic star spawn
+      this.state.nextRelicStarSpawn = now + this.context.waves.relicStars.interval;
+    }
+
+    // Update enemy positions - batch process for performance
+    const margin = 100; // Same margin used in renderer
+    const cleanupMargin = 200; // Larger margin for cleanup
+    for (let i = enemies.length - 1; i >= 0; i--) {
+      const enemy = enemies[i];
+
+      // Steer by the enemy's movement behaviour (bosses steer themselves)
+      if (!enemy.boss && updateEnemyMovement(enemy, player, deltaTime, this.context)) {
+        this.createExplosion(enemy.x, enemy.y, '#b388ff', enemy.radius + 10, 0);
+      }
+
+      enemy.x += enemy.velocityX * deltaTime;
+      enemy.y += enemy.velocityY * deltaTime;
+
+      // Stealth enemies uncover their word as they close in
+      updateEnemyStealth(enemy, player, now);
+
+      // Cleanup enemies that are too far off-screen to prevent memory bloat
+      if (enemy.x < -cleanupMargin || enemy.x > this.canvasWidth + cleanupMargin ||
+          enemy.y < -cleanupMargin || enemy.y > this.canvasHeight + cleanupMargin) {
+        // Only remove if enemy has been moving away from center for a while
+        const distanceFromCenter = Math.sqrt(
+          Math.pow(enemy.x - this.canvasWidth/2, 2) +
+          Math.pow(enemy.y - this.canvasHeight/2, 2)
+        );
+        const maxDistance = Math.sqrt(this.canvasWidth * this.canvasWidth + this.canvasHeight * this.canvasHeight) + cleanupMargin;
+
+        if (distanceFromCenter > maxDistance) {
+          enemies.splice(i, 1);
+          // Revalidate typing when enemy is removed
+          this.revalidateTyping();
+          continue; // Skip further processing for this enemy
+        }
+      }
+
+      // Only update visual effects for enemies that are near the visible area
+      const isNearScreen = enemy.x > -margin &&
+                          enemy.x < this.canvasWidth + margin &&
+                          enemy.y > -margin &&
+                          enemy.y < this.canvasHeight + margin;
+
+      // Update pulse phase for visual effects only for visible enemies
+      if (isNearScreen && enemy.pulsePhase !== undefined) {
+        enemy.pulsePhase += deltaTime * 3;
+        if (enemy.pulsePhase > Math.PI * 2) {
+          enemy.pulsePhase -= Math.PI * 2;
+        }
+      }
+
+      // Check collision with player
+      const dx = enemy.x - player.x;
+      const dy = enemy.y - player.y;
+      const distance = Math.sqrt(dx * dx + dy * dy);
+
+      if (distance < enemy.radius + player.radius) {
+        let collisionDamage = 25;
+        if (enemy.isElite) collisionDamage = 50;
+        else if (enemy.isBoss) collisionDamage = 100;
+
+        player.shield -= collisionDamage;
+        this.createDamageNumber(player.x, player.y, collisionDamage, '#ff0000');
+        this.createExplosion(enemy.x, enemy.y, enemy.color, 30, 0);
+        // Explosive elites go off on impact too
+        if (hasAffix(enemy, 'explosive')) {
+          this.detonate(enemy);
+        }
+
+        if (enemy.boss) {
+          // Bosses survive the impact and get thrown back to come around again
+          this.knockBackBoss(enemy);
+        } else {
+          if (!enemy.isSplitChild) {
+            this.gameState.waveEnemiesDefeated++;
+          }
+          enemies.splice(i, 1);
+          // Revalidate typing when enemy is removed
+          this.revalidateTyping();
+        }
+
+        if (player.shield <= 0) {
+          this.gameState.isGameOver = true;
+          break;
+        }
+      }
+    }
+
+    // Move missiles and let the ones that weren't intercepted hit the shield
+    this.updateMissiles();
+
+    // Update projectiles
+    updateProjectiles(
+      this.state.projectiles,
+      deltaTime,
+      this.gameState.enemies,
+      this.handleEnemyHit,
+      this.createExplosion,
+      this.gameState.player // Pass player for bounceRange access
+    );
+
+    // Update effects
+    updateExplosions(this.state.explosions, deltaTime);
+    updateDamageNumbers(this.state.damageNumbers, deltaTime);
+
+    // Check wave completion and handle continuous spawning
+    if (this.gameState.waveEnemiesDefeated >= this.gameState.waveEnemyCount &&
+        enemies.length === 0 &&
+        !this.gameState.isPausedForLevelUp &&
+        !this.gameState.isPausedBetweenWaves) {
+      // Start next wave immediately without countdown
+      this.startWave(this.gameState.wave + 1);
+    }
+
+    // Update auto-fire system
+    this.updateAutoFire();
+
+    // Update skill-based abilities (frost and fire)
+    this.updateSkillAbilities();
+
+    // Count down active skill cooldowns and end the effects that ran out
+    this.updateActiveSkills();
+
+    // Shield regeneration
+    if (player.shield < player.maxShield) {
+      player.shield = Math.min(
+        player.maxShield,
+        player.shield + player.shieldRegenRate * player.shieldEfficiency * deltaTime
+      );
+    }
+
+    // Update player rotation for Earth spinning animation
+    player.rotation += deltaTime * 0.5; // Slow rotation: 0.5 radians per second
+    if (player.rotation > Math.PI * 2) {
+      player.rotation -= Math.PI * 2; // Keep angle within 0-2π range
+    }
+
+    // Update wrong typing effect (fade out)
+    if (this.state.wrongTypingEffect > 0) {
+      this.state.wrongTypingEffect = Math.max(0, this.state.wrongTypingEffect - deltaTime * 3);
+    }
+
+    // Update enemy wrong typing flash effects
+    for (const enemy of enemies) {
+      if (enemy.wrongTypingFlash > 0) {
+        enemy.wrongTypingFlash = Math.max(0, enemy.wrongTypingFlash - deltaTime * 5); // Faster fade (0.2s)
+      }
+    }
+  }
+
+  // Store positions at the start of a step for render interpolation
+  private storePreviousPositions(): void {
+    for (const entity of [...this.gameState.enemies, ...this.gameState.relicStars, ...this.gameState.missiles, ...this.state.projectiles]) {
+      entity.prevX = entity.x;
+      entity.prevY = entity.y;
+    }
+  }
+
+  // Handle typing input - real-time system
+  private handleKeyPress(key: string): void {
+    if (!this.gameState.isPlaying || this.gameState.isGameOver || this.isEffectivelyPaused()) return;
+
+    if (key === 'Enter') {
+      // Reset typing
+      this.resetTyping();
+      return;
+    }
+
+    if (key === 'Backspace') {
+      // Remove last character
+      if (this.state.currentTypedText.length > 0) {
+        recordBackspace(this.state.typingMetrics);
+        this.state.currentTypedText = this.state.currentTypedText.slice(0, -1);
+        // Update highlighting after backspace
+        this.updateEnemyHighlighting();
+      }
+      return;
+    }
+
+    // Only process valid letter keys
+    if (key.length === 1 && /^[a-zA-Z]$/.test(key)) {
+      const letter = key.toLowerCase();
+      const previousText = this.state.currentTypedText;
+      const metrics = this.state.typingMetrics;
+      const errorsBefore = metrics.errors;
+
+      // Add character (only letters)
+      this.state.currentTypedText += letter;
+
+      // Update enemy highlighting and check for complete matches
+      this.updateEnemyHighlighting();
+
+      // A wrong letter has been counted as an error by the highlighting
+      recordKeystroke(
+        metrics,
+        letter,
+        previousText.length > 0 ? previousText[previousText.length - 1] : null,
+        metrics.errors === errorsBefore,
+        this.context.clock.now()
+      );
+    }
+    // Ignore any other keys (numbers, symbols, etc.) to prevent invalid input
+  }
+
+  // Reset typing state
+  private resetTyping(): void {
+    this.state.currentTypedText = '';
+    this.state.highlightedEnemyId = null;
+    this.state.highlightedRelicStarId = null;
+    // Clear all enemy highlighting
+    this.gameState.enemies.forEach(enemy => {
+      enemy.isHighlighted = false;
+      enemy.typedProgress = 0;
+    });
+    // Clear all relic star and missile highlighting
+    this.gameState.relicStars.forEach(star => {
+      star.typedProgress = 0;
+    });
+    this.gameState.missiles.forEach(missile => {
+      missile.typedProgress = 0;
+    });
+  }
+
+  // Handle wrong typing - consolidated logic
+  private handleWrongTyping(reason: 'manual' | 'auto' = 'manual'): void {
+    const { enemies, player } = this.gameState;
+
+    // Store current state before clearing (for effects)
+    const hadTypedText = this.state.currentTypedText !== '';
+    const currentlyHighlighted = enemies.find(enemy => enemy.isHighlighted);
+
+    // Track the letter the player missed
+    if (reason === 'manual' && hadTypedText) {
+      const typedText = this.state.currentTypedText;
+      recordTypingError(
+        this.state.typingMetrics,
+        this.findExpectedLetter(typedText),
+        typedText.length > 1 ? typedText[typedText.length - 2] : null
+      );
+    }
+
+    // Immediately clear typing state
+    this.state.currentTypedText = '';
+    this.state.highlightedEnemyId = null;
+    this.state.wrongTypingEffect = 1;
+
+    // Clear all enemy highlighting
+    enemies.forEach(enemy => {
+      enemy.isHighlighted = false;
+      enemy.typedProgress = 0;
+    });
+
+    // Only apply effects if we actually had typed text
+    if (hadTypedText) {
+      // Trigger flash effect on previously highlighted enemy if it exists
+      if (currentlyHighlighted && currentlyHighlighted.typedProgress > 0) {
+        currentlyHighlighted.wrongTypingFlash = 1.0;
+      }
+
+      // Reduce player shield for invalid typing
+      const shieldBefore = player.shield;
+      player.shield = Math.max(0, player.shield - 10);
+      const shieldLost = shieldBefore - player.shield;
+      // Relics can soften the blow
+      const effects = this.getRelicEffects();
+      getRelicHooks(player, 'onWrongTyping').forEach(onWrongTyping => onWrongTyping(player, shieldLost, effects));
+
+      // Vampiric elites feed on every mistake
+      this.healVampiricElites();
+
+      // Create damage number on player with appropriate message
+      const message = reason === 'auto' ? 'INVALID TEXT!' : 'WRONG TYPING!';
+      this.createDamageNumber(player.x, player.y - 30, shieldLost, '#ff4444', false, message);
+    }
+  }
+
+  // Find the letter that should have followed the correct part of a mistyped text (null if no word matched at all)
+  private findExpectedLetter(typedText: string): string | null {
+    const prefix = typedText.slice(0, -1);
+    if (prefix.length === 0) return null;
+
+    const targetWord = [
+      ...this.gameState.relicStars.map(star => star.word),
+      ...this.gameState.missiles.map(missile => missile.word),
+      ...this.gameState.enemies.map(getTypingWord),
+      ...this.getReadyActiveSkills().map(skill => skill.word)
+    ]
+      .find(word => word.toLowerCase().startsWith(prefix));
+    return targetWord ? targetWord.toLowerCase()[prefix.length] : null;
+  }
+
+  // Update enemy highlighting based on typed text
+  private updateEnemyHighlighting(fromRevalidation: boolean = false): void {
+    if (this.state.currentTypedText.length === 0) {
+      this.state.highlightedEnemyId = null;
+      this.state.highlightedRelicStarId = null;
+      // Clear all highlights
+      this.gameState.enemies.forEach(enemy => {
+        enemy.isHighlighted = false;
+        enemy.typedProgress = 0;
+      });
+      this.gameState.missiles.forEach(missile => {
+        missile.typedProgress = 0;
+      });
+      return;
+    }
+
+    // Check relic stars first (they have priority)
+    this.updateRelicStarHighlighting();
+
+    // If a relic star is highlighted, don't highlight missiles or enemies
+    if (this.state.highlightedRelicStarId !== null) {
+      this.state.highlightedEnemyId = null;
+      // Clear all missile and enemy highlights
+      this.gameState.missiles.forEach(missile => {
+        missile.typedProgress = 0;
+      });
+      this.gameState.enemies.forEach(enemy => {
+        enemy.isHighlighted = false;
+        enemy.typedProgress = 0;
+      });
+      return;
+    }
+
+    // Incoming missiles come next - intercepting one is more urgent than any enemy
+    if (this.updateMissileHighlighting()) {
+      this.state.highlightedEnemyId = null;
+      // Clear all enemy highlights
+      this.gameState.enemies.forEach(enemy => {
+        enemy.isHighlighted = false;
+        enemy.typedProgress = 0;
+      });
+      return;
+    }
+
+    // Highlight ALL enemies that match the typed text
+    const { enemies } = this.gameState;
+    const typedText = this.state.currentTypedText.toLowerCase();
+
+    let hasAnyMatch = false;
+    let completedEnemy: Enemy | null = null;
+
+    // Check all enemies for matches - always against the real word, whatever a stealth enemy is showing
+    for (const enemy of enemies) {
+      const enemyWord = getTypingWord(enemy).toLowerCase();
+
+      if (enemyWord.startsWith(typedText)) {
+        // This enemy matches - highlight it
+        enemy.isHighlighted = true;
+        enemy.typedProgress = typedText.length / enemyWord.length;
+        hasAnyMatch = true;
+
+        // Check if this word is completely typed
+        if (enemyWord === typedText) {
+          completedEnemy = enemy;
+        }
+      } else {
+        // This enemy doesn't match - remove highlight
+        enemy.isHighlighted = false;
+        enemy.typedProgress = 0;
+      }
+    }
+
+    // If we found a completed word, fire at that enemy (or strip its armor when it was the shield word,
+    // or break a segment when it was a boss's phrase word)
+    if (completedEnemy) {
+      recordCompletedWord(this.state.typingMetrics, typedText, completedEnemy.spawnTime);
+      if (completedEnemy.shieldWord) {
+        this.breakArmor(completedEnemy);
+      } else if (completedEnemy.boss) {
+        this.hitBossWord(completedEnemy);
+      } else {
+        this.fireAtEnemy(completedEnemy);
+      }
+      this.resetTyping();
+      return;
+    }
+
+    // Command words of ready active skills are matched last - no enemy word ever clashes with them
+    const readySkills = this.getReadyActiveSkills();
+    const completedSkill = readySkills.find(skill => skill.word === typedText);
+    if (completedSkill) {
+      recordCompletedWord(this.state.typingMetrics, typedText);
+      // Clear the typing first - the skill's effect can kill enemies and change the words on screen
+      this.resetTyping();
+      this.triggerActiveSkill(completedSkill);
+      return;
+    }
+    if (readySkills.some(skill => skill.word.startsWith(typedText))) {
+      hasAnyMatch = true;
+    }
+
+    // If no enemies match and we're not from revalidation, handle wrong typing
+    if (!hasAnyMatch && !fromRevalidation && this.state.currentTypedText.length > 0) {
+      this.handleWrongTyping();
+    }
+
+    // Update highlightedEnemyId for other systems (can be any highlighted enemy or null)
+    const firstHighlighted = enemies.find(enemy => enemy.isHighlighted);
+    this.state.highlightedEnemyId = firstHighlighted ? firstHighlighted.id : null;
+  }
+
+  // Strip an enemy's armor, leaving its main word to be typed
+  private breakArmor(enemy: Enemy): void {
+    enemy.shieldWord = null;
+    this.createExplosion(enemy.x, enemy.y, '#bdc3c7', enemy.radius + 15, 0);
+    this.createDamageNumber(enemy.x, enemy.y - 40, 0, '#bdc3c7', false, 'ARMOR BROKEN');
+  }
+
+  // Show that armor, a ward or a boss soaked up a hit
+  private blockHit(enemy: Enemy): void {
+    const text = enemy.boss ? 'IMMUNE' : enemy.shieldWord ? 'ARMOR' : 'WARDED';
+    this.createDamageNumber(enemy.x, enemy.y - 20, 0, '#bdc3c7', false, text);
+  }
+
+  // Take damage off the player's shield from an enemy effect, ending the run when it runs out
+  private damageShield(damage: number, color: string, text: string): void {
+    const { player } = this.gameState;
+    player.shield -= damage;
+    this.createDamageNumber(player.x, player.y - 30, damage, color, false, text);
+    if (player.shield <= 0) {
+      this.gameState.isGameOver = true;
+    }
+  }
+
+  // Blow up an Explosive elite - the blast hurts the shield when the player is caught in it
+  private detonate(enemy: Enemy): void {
+    const { player } = this.gameState;
+    const { color } = ELITE_AFFIXES.explosive;
+    this.createExplosion(enemy.x, enemy.y, color, EXPLOSION_RADIUS * 0.6, 0);
+
+    const dx = enemy.x - player.x;
+    const dy = enemy.y - player.y;
+    if (Math.sqrt(dx * dx + dy * dy) > EXPLOSION_RADIUS + player.radius) return;
+    this.damageShield(Math.round(EXPLOSION_DAMAGE * (enemy.affixPower ?? 1)), color, 'BLAST');
+  }
+
+  // Heal every Vampiric elite on screen after a mistype
+  private healVampiricElites(): void {
+    for (const enemy of this.gameState.enemies) {
+      if (!hasAffix(enemy, 'vampiric') || enemy.health >= enemy.maxHealth) continue;
+
+      const heal = Math.min(
+        Math.round(enemy.maxHealth * VAMPIRIC_HEAL_FRACTION * (enemy.affixPower ?? 1)),
+        enemy.maxHealth - enemy.health
+      );
+      enemy.health += heal;
+      this.createDamageNumber(enemy.x, enemy.y - 20, heal, ELITE_AFFIXES.vampiric.color, false, `+${heal}`);
+    }
+  }
+
+  // Whether a warder's protection is still up on an enemy
+  private isWarded(enemy: Enemy): boolean {
+    return !!enemy.wardedUntil && this.context.clock.now() < enemy.wardedUntil;
+  }
+
+  // Break a boss segment for a typed phrase word, moving on to the next word or phase
+  private hitBossWord(enemy: Enemy): void {
+    const boss = enemy.boss!;
+    const definition = getBossDefinitionById(boss.definitionId);
+    if (!definition) return;
+
+    enemy.health -= BOSS_SEGMENT_HEALTH;
+    this.createExplosion(enemy.x, enemy.y, enemy.color, enemy.radius, 0);
+    this.createDamageNumber(enemy.x, enemy.y - enemy.radius, BOSS_SEGMENT_HEALTH, '#ffeb3b', true);
+
+    if (enemy.health <= 0) {
+      this.handleEnemyKilled(enemy, enemy.color, enemy.radius + 40);
+      // Every boss defeated earns a banish
+      this.gameState.player.banishCharges++;
+      this.createDamageNumber(enemy.x, enemy.y - enemy.radius - 20, 0, '#e74c3c', false, '+1 BANISH');
+      return;
+    }
+
+    boss.wordIndex++;
+    if (boss.wordIndex >= getPhraseWords(definition.phases[boss.phaseIndex]).length) {
+      boss.phaseIndex++;
+      boss.wordIndex = 0;
+      this.createDamageNumber(enemy.x, enemy.y - enemy.radius - 20, 0, '#ff5252', false, `PHASE ${boss.phaseIndex + 1}`);
+      this.startBossPhase(enemy);
+    }
+
+    enemy.word = getPhraseWords(definition.phases[boss.phaseIndex])[boss.wordIndex];
+    enemy.typedProgress = 0;
+    boss.wordShownAt = this.context.clock.now();
+    boss.isScrambled = false;
+  }
+
+  // Trigger the events that open a boss's current phase
+  private startBossPhase(enemy: Enemy): void {
+    const boss = enemy.boss!;
+    const phase = getBossDefinitionById(boss.definitionId)?.phases[boss.phaseIndex];
+    if (!phase) return;
+
+    if (phase.summonCount) {
+      summonMinions(this.gameState, enemy, phase.summonCount, this.canvasWidth, this.canvasHeight, this.context);
+    }
+    if (phase.speedBurst) {
+      boss.speedBurstUntil = this.context.clock.now() + phase.speedBurst.duration;
+      this.createDamageNumber(enemy.x, enemy.y - enemy.radius - 40, 0, '#ff9800', false, 'CHARGE!');
+    }
+  }
+
+  // Steer bosses toward the player and scramble words that were left up too long
+  private updateBosses(): void {
+    const { player } = this.gameState;
+    const now = this.context.clock.now();
+
+    for (const enemy of this.gameState.enemies) {
+      const boss = enemy.boss;
+      if (!boss) continue;
+
+      const phase = getBossDefinitionById(boss.definitionId)?.phases[boss.phaseIndex];
+      if (!phase) continue;
+
+      if (boss.speedBurstUntil !== null && now >= boss.speedBurstUntil) {
+        boss.speedBurstUntil = null;
+      }
+
+      if (phase.scramble && phase.scramble.wordIndex === boss.wordIndex && !boss.isScrambled &&
+          now - boss.wordShownAt >= phase.scramble.delay) {
+        enemy.word = scrambleWord(enemy.word, this.context.rng);
+        boss.isScrambled = true;
+        this.createDamageNumber(enemy.x, enemy.y - enemy.radius - 20, 0, '#e040fb', false, 'SCRAMBLED');
+        this.revalidateTyping();
+      }
+
+      // Bosses creep toward the player, charging much faster during a speed burst
+      const dx = player.x - enemy.x;
+      const dy = player.y - enemy.y;
+      const distance = Math.sqrt(dx * dx + dy * dy) || 1;
+      const speed = (boss.speedBurstUntil !== null && phase.speedBurst
+        ? enemy.speed * phase.speedBurst.multiplier
+        : enemy.speed) * player.enemySpeedMultiplier;
+
+      enemy.velocityX = dx / distance * speed;
+      enemy.velocityY = dy / distance * speed;
+    }
+  }
+
+  // Throw a boss that rammed the player back out, ending its charge
+  private knockBackBoss(enemy: Enemy): void {
+    const { player } = this.gameState;
+    const dx = enemy.x - player.x;
+    const dy = enemy.y - player.y;
+    const distance = Math.sqrt(dx * dx + dy * dy) || 1;
+
+    enemy.x = player.x + dx / distance * BOSS_KNOCKBACK_DISTANCE;
+    enemy.y = player.y + dy / distance * BOSS_KNOCKBACK_DISTANCE;
+    enemy.boss!.speedBurstUntil = null;
+  }
+
+  // Fire at a specific enemy
+  private fireAtEnemy(enemy: Enemy): void {
+    const { player } = this.gameState;
+
+    // Check if this is a purple enemy that triggers multi-shot
+    if (enemy.enemyType === 'purple') {
+      player.purpleKillCount++;
+
+      if (player.purpleKillCount >= 3) {
+        // Reset counter and fire multi-shot instead of normal shot
+        player.purpleKillCount = 0;
+        this.fireMultiShot(enemy);
+        return; // Don't fire normal shot
+      }
+    }
+
+    // Check if this is a blue enemy that triggers bouncing shot
+    if (enemy.enemyType === 'blue') {
+      this.fireBouncingShot(enemy);
+      return; // Don't fire normal shot
+    }
+
+    // Fire normal shot for other enemies
+    this.fireNormalShot(enemy);
+  }
+
+  // Player damage with damage multipliers from relics and skills like Power Surge applied
+  private getShotDamage(): number {
+    const { player } = this.gameState;
+    return player.damage * player.damageMultiplier;
+  }
+
+  // Roll a critical hit for a shot based on player damage
+  private rollShotDamage(): { damage: number; isCritical: boolean } {
+    const { player } = this.gameState;
+    const isCritical = this.context.rng.next() < player.critChance;
+    const damage = isCritical ? this.getShotDamage() * player.critMultiplier : this.getShotDamage();
+    return { damage, isCritical };
+  }
+
+  // Fire normal shot
+  private fireNormalShot(enemy: Enemy): void {
+    const { damage, isCritical } = this.rollShotDamage();
+    this.fireProjectile(enemy, damage, isCritical, false, true, 'normal');
+  }
+
+  // Fire multi-shot at multiple targets
+  private fireMultiShot(primaryTarget: Enemy): void {
+    const { player } = this.gameState;
+    const targets = this.findMultiShotTargets(primaryTarget, player.multiShotTargets);
+    const now = this.context.clock.now();
+
+    // Stagger the shots 50ms apart
+    targets.forEach((target, index) => {
+      const { damage, isCritical } = this.rollShotDamage();
+      this.state.pendingShots.push({
+        fireAt: now + index * 50,
+        targetEnemyId: target.id,
+        damage,
+        isCritical,
+        isMultiShot: true,
+        isMainShot: index === 0,
+        shotType: 'multishot'
+      });
+    });
+
+    // Show multi-shot indicator
+    this.createDamageNumber(primaryTarget.x, primaryTarget.y - 30, 0, '#8B5CF6', false, "MULTI-SHOT!");
+  }
+
+  // Fire bouncing shot
+  private fireBouncingShot(primaryTarget: Enemy): void {
+    const { damage, isCritical } = this.rollShotDamage();
+    this.fireProjectile(primaryTarget, damage, isCritical, false, true, 'bouncing');
+
+    // Show bouncing shot indicator
+    this.createDamageNumber(primaryTarget.x, primaryTarget.y - 30, 0, '#4A90E2', false, "BOUNCE!");
+  }
+
+  // Find targets for multi-shot
+  private findMultiShotTargets(primaryTarget: Enemy, maxTargets: number): Enemy[] {
+    const { player } = this.gameState;
+    const targets = [primaryTarget];
+    const availableEnemies = this.gameState.enemies.filter(e => e.id !== primaryTarget.id);
+
+    // Sort by distance from player
+    availableEnemies.sort((a, b) => {
+      const distA = Math.sqrt((a.x - player.x) ** 2 + (a.y - player.y) ** 2);
+      const distB = Math.sqrt((b.x - player.x) ** 2 + (b.y - player.y) ** 2);
+      return distA - distB;
+    });
+
+    // Add closest enemies up to maxTargets
+    for (let i = 0; i < Math.min(maxTargets - 1, availableEnemies.length); i++) {
+      targets.push(availableEnemies[i]);
+    }
+
+    return targets;
+  }
+
+  // Fire scheduled shots whose time has come (targets that died in the meantime are skipped)
+  private updatePendingShots(): void {
+    const now = this.context.clock.now();
+    const dueShots = this.state.pendingShots.filter(shot => shot.fireAt <= now);
+    if (dueShots.length === 0) return;
+
+    this.state.pendingShots = this.state.pendingShots.filter(shot => shot.fireAt > now);
+    for (const shot of dueShots) {
+      const target = this.gameState.enemies.find(e => e.id === shot.targetEnemyId);
+      if (target) {
+        this.fireProjectile(target, shot.damage, shot.isCritical, shot.isMultiShot, shot.isMainShot, shot.shotType);
+      }
+    }
+  }
+
+  // Fire a projectile at a target enemy
+  private fireProjectile(target: Enemy, damage: number, isCritical: boolean, isMultiShot: boolean = false, isMainShot: boolean = false, shotType: 'normal' | 'bouncing' | 'multishot' = 'normal'): void {
+    const { player } = this.gameState;
+    // Normal and multishot projectiles should NOT bounce regardless of player bounceCount
+    const bounceCount = (shotType === 'bouncing') ? player.bounceCount : 0;
+
+    // Apply momentum-based damage bonus for kinetic mastery
+    // Faster bullets carry more kinetic energy and deal more damage
+    const baseSpeed = 1.0; // Base projectile speed
+    const speedRatio = player.projectileSpeed / baseSpeed;
+
+    // Kinetic energy scales with speed squared, but we use a gentler linear scale for balance
+    // Each point of speed above base gives 8% damage bonus
+    const momentumDamageMultiplier = 1 + (speedRatio - 1) * 0.08;
+    const finalDamage = damage * momentumDamageMultiplier;
+
+    // Show momentum bonus in damage numbers for enhanced bullets
+    const showMomentumBonus = momentumDamageMultiplier > 1.05; // Show bonus if > 5% increase
+
+    const projectile = createProjectile(
+      player.x,
+      player.y,
+      target.x,
+      target.y,
+      finalDamage, // Use momentum-enhanced damage
+      player.projectileSpeed,
+      player.projectileSize,
+      isCritical,
+      player.aoeRadius,
+      target.id,
+      isMultiShot,
+      false, // isDoubleShot
+      bounceCount,
+      isMainShot,
+      shotType,
+      player // Pass player for relic effects
+    );
+
+    this.state.projectiles.push(projectile);
+
+    // Show kinetic mastery momentum bonus effect
+    if (showMomentumBonus && isMainShot) {
+      this.createDamageNumber(
+        player.x + 20,
+        player.y - 40,
+        0,
+        '#00ffff',
+        false,
+        `KINETIC +${Math.round((momentumDamageMultiplier - 1) * 100)}%`
+      );
+    }
+  }
+
+  // Fire ice arrows (Arctic Barrage skill)
+  private fireIceArrows(): void {
+    const { player } = this.gameState;
+    const arrowCount = player.frozenBulletCount || 8;
+
+    // Fire arrows in different directions
+    for (let i = 0; i < arrowCount; i++) {
+      const angle = (i / arrowCount) * Math.PI * 2;
+      const target = this.findClosestEnemyInDirection(angle);
+
+      if (target) {
+        // Create ice projectile
+        const iceProjectile = createProjectile(
+          player.x,
+          player.y,
+          target.x,
+          target.y,
+          this.getShotDamage() * 0.8, // Slightly reduced damage for AoE skill
+          player.projectileSpeed,
+          player.projectileSize,
+          false, // Not critical
+          0, // No AoE radius
+          target.id,
+          false, // Not multi-shot
+          false, // Not frozen bullet
+          0, // No bounces
+          false, // Not main shot
+          'ice',
+          player
+        );
+
+        this.state.projectiles.push(iceProjectile);
+      }
+    }
+  }
+
+  // Fire meteor storm (fire skill)
+  private fireMeteorStorm(): void {
+    const { player, enemies } = this.gameState;
+
+    // Target all enemies with fire meteors
+    enemies.forEach(enemy => {
+      const fireProjectile = createProjectile(
+        player.x,
+        player.y,
+        enemy.x,
+        enemy.y,
+        this.getShotDamage() * 1.2, // Higher damage for fire skill
+        player.projectileSpeed * 0.8, // Slower but more dramatic
+        player.projectileSize * 1.5, // Larger meteors
+        false, // Not critical
+        0, // No AoE radius
+        enemy.id,
+        false, // Not multi-shot
+        false, // Not frozen bullet
+        0, // No bounces
+        false, // Not main shot
+        'fire',
+        player
+      );
+
+      this.state.projectiles.push(fireProjectile);
+    });
+  }
+
+  // Find closest enemy in direction
+  private findClosestEnemyInDirection(angle: number): Enemy | null {
+    const { player, enemies } = this.gameState;
+    if (enemies.length === 0) return null;
+
+    const directionX = Math.cos(angle);
+    const directionY = Math.sin(angle);
+    let closestEnemy = null;
+    let closestDistance = Infinity;
+
+    for (const enemy of enemies) {
+      const dx = enemy.x - player.x;
+      const dy = enemy.y - player.y;
+      const dotProduct = dx * directionX + dy * directionY;
+
+      if (dotProduct > 0) {
+        const distance = Math.sqrt(dx * dx + dy * dy);
+        if (distance < closestDistance) {
+          closestDistance = distance;
+          closestEnemy = enemy;
+        }
+      }
+    }
+
+    return closestEnemy;
+  }
+
+  // Handle projectile hit
+  private handleEnemyHit = (enemyId: number, damage: number, isCritical: boolean, isMultiShot: boolean, isDoubleShot: boolean, isMainShot: boolean, projectileType?: 'normal' | 'bouncing' | 'multishot' | 'ice' | 'fire'): void => {
+    const enemy = this.gameState.enemies.find(e => e.id === enemyId);
+    if (!enemy) return;
+
+    // Armor, wards and bosses block the hit along with its freeze and other side effects
+    if (enemy.shieldWord || enemy.boss || this.isWarded(enemy)) {
+      this.blockHit(enemy);
+      return;
+    }
+
+    this.applyDamageToEnemy(enemy, damage, isCritical, isMainShot, projectileType);
+
+    // On-hit relic behaviours only act on enemies that survived the hit
+    const { player } = this.gameState;
+    if (enemy.health > 0) {
+      const effects = this.getRelicEffects();
+      getRelicHooks(player, 'onHit').forEach(onHit => onHit(player, enemy, damage, effects));
+    }
+
+    if (isMultiShot) {
+      this.createDamageNumber(enemy.x + 15, enemy.y - 15, Math.round(damage), '#00ffff', isCritical);
+    }
+
+    if (isDoubleShot) {
+      this.applyFrozenEffect(enemy);
+    }
+  };
+
+  // Apply damage to enemy
+  private applyDamageToEnemy(enemy: Enemy, damage: number, isCritical: boolean, isMainShot: boolean, projectileType?: 'normal' | 'bouncing' | 'multishot' | 'ice' | 'fire'): void {
+    // A blast can still reach an enemy that a nested blast already killed
+    if (enemy.health <= 0 || !this.gameState.enemies.includes(enemy)) return;
+
+    // Armor and wards block every source of damage, including AoE explosions - and bosses only fall to their phrases
+    if (enemy.shieldWord || enemy.boss || this.isWarded(enemy)) {
+      this.blockHit(enemy);
+      return;
+    }
+
+    // Thermal Shock: enemies caught frozen and burning at once take extra damage from every hit
+    if (enemy.isFrozen && enemy.isBurning && hasSynergy(this.gameState.player, 'thermal_shock')) {
+      damage *= THERMAL_SHOCK_MULTIPLIER;
+    }
+
+    const enemyCountBefore = this.gameState.enemies.length;
+    const enemyWordBefore = enemy.word;
+
+    const wasKilled = applyDamageToEnemyMechanic(
+      enemy,
+      damage,
+      isCritical,
+      isMainShot,
+      projectileType,
+      this.context
+    );
+
+    // Reflective elites send part of a bouncing hit back at the shield
+    const reflected = getReflectedDamage(enemy, damage, projectileType);
+    if (reflected > 0) {
+      this.damageShield(reflected, ELITE_AFFIXES.reflective.color, 'REFLECTED');
+    }
+
+    if (wasKilled) {
+      this.handleEnemyKilled(enemy, enemy.color, 30);
+    } else {
+      // Enemy was hit but not killed - change its word to show the hit registered
+      if (isMainShot) { // Only change word for main shots (user typing), not auto-fire
+        this.replaceEnemyWord(enemy);
+        enemy.typedProgress = 0; // Reset typing progress
+      }
+    }
+
+    // Revalidate typing if enemy was removed or its word changed
+    const enemyCountAfter = this.gameState.enemies.length;
+    const enemyWordAfter = enemy.health > 0 ? enemy.word : null;
+
+    if (enemyCountAfter !== enemyCountBefore || (enemyWordAfter && enemyWordAfter !== enemyWordBefore)) {
+      this.revalidateTyping();
+    }
+  }
+
+  // Give an enemy a new word - splitters need another compound, and keep theirs when none fits
+  private replaceEnemyWord(enemy: Enemy): void {
+    if (enemy.enemyType === 'splitter') {
+      const compound = pickCompoundWord(this.gameState, this.context, enemy.id);
+      if (compound) {
+        enemy.word = compound.word;
+        enemy.splitParts = [...compound.parts];
+      }
+      return;
+    }
+
+    enemy.word = pickEnemyWord(this.gameState, this.context, !!enemy.isElite, !!enemy.isBoss, enemy.id);
+    // Obscure the new word straight away rather than on the next step
+    updateEnemyStealth(enemy, this.gameState.player, this.context.clock.now());
+  }
+
+  // Handle an enemy death from any source: kill tracking, rewards and potential level up
+  private handleEnemyKilled(enemy: Enemy, explosionColor: string, explosionRadius: number): void {
+    const { player, enemies } = this.gameState;
+
+    // An enemy that already left the field was already counted and rewarded
+    const enemyIndex = enemies.indexOf(enemy);
+    if (enemyIndex === -1) return;
+
+    // Track kills for skill systems
+    if (player.frostMasteryLevel > 0) {
+      player.frostMasteryKills = (player.frostMasteryKills || 0) + 1;
+    }
+    if (player.fireMasteryLevel > 0) {
+      player.fireMasteryKills = (player.fireMasteryKills || 0) + 1;
+    }
+
+    // Remove enemy from array
+    enemies.splice(enemyIndex, 1);
+
+    // A splitter's children replace it, so only the splitter itself counts towards the wave
+    if (!enemy.isSplitChild) {
+      this.gameState.waveEnemiesDefeated++;
+    }
+
+    // Update score and enemy kill count
+    this.gameState.score += enemy.pointValue;
+    this.gameState.enemiesKilled++;
+
+    // Splitters break into their parts where they died, and so do Splitting elites
+    if (enemy.enemyType === 'splitter') {
+      enemies.push(...createSplitChildren(this.gameState, enemy, this.context));
+    } else if (hasAffix(enemy, 'splitting')) {
+      enemies.push(...createAffixSplitChildren(this.gameState, enemy, this.context));
+    }
+
+    // Create explosion effect
+    this.createExplosion(enemy.x, enemy.y, explosionColor, explosionRadius, 0);
+    if (hasAffix(enemy, 'explosive')) {
+      this.detonate(enemy);
+    }
+
+    // On-kill relic behaviours run after the enemy left the field - applyDamageToEnemy skips it if their blasts reach it
+    const effects = this.getRelicEffects();
+    getRelicHooks(player, 'onKill').forEach(onKill => onKill(player, enemy, effects));
+
+    this.awardXp(Math.floor(enemy.pointValue * player.experienceMultiplier), enemy.x, enemy.y - 40);
+  }
+
+  // Award XP and check for level up
+  private awardXp(xpGain: number, x: number, y: number): void {
+    const { player } = this.gameState;
+    player.xp += xpGain;
+    this.createDamageNumber(x, y, xpGain, '#00ff00', false, `+${xpGain} XP`);
+
+    if (player.xp >= player.xpToNextLevel) {
+      this.levelUp();
+    }
+  }
+
+  // Level up the player and pause for skill selection
+  private levelUp(): void {
+    const { player } = this.gameState;
+
+    // Level up effect
+    this.createExplosion(player.x, player.y, '#ffffff', 50, 0);
+
+    // Increase level
+    player.level++;
+    player.xp = 0;
+    player.xpToNextLevel = Math.floor(player.xpToNextLevel * 1.2);
+
+    // Increase base stats
+    player.baseStats.damage += 2;
+    player.baseStats.maxShield += 10;
+    resolvePlayerStats(player);
+    player.shield = player.maxShield;
+
+    // Pause game for skill selection
+    this.gameState.isPausedForLevelUp = true;
+
+    // Generate skill choices
+    this.state.availableSkillChoices = getRandomSkills(this.gameState.availableSkills, this.context.rng, player.banishedSkillIds);
+
+    // Tell the player the command word of an active skill unlocked at this level
+    for (const skill of this.gameState.activeSkills) {
+      if (skill.unlockLevel === player.level) {
+        this.createDamageNumber(player.x, player.y - 60, 0, skill.color, false, `TYPE "${skill.word.toUpperCase()}"`);
+      }
+    }
+  }
+
+  // Apply frozen effect to enemy
+  private applyFrozenEffect(enemy: Enemy): void {
+    enemy.isFrozen = true;
+    enemy.frozenUntil = this.context.clock.now() + 5000;
+
+    if (!enemy.originalSpeed) {
+      enemy.originalSpeed = enemy.speed;
+    }
+
+    enemy.speed = enemy.originalSpeed * 0.5;
+
+    if (!enemy.color.includes('88')) {
+      enemy.color = enemy.color + '88';
+    }
+
+    this.createDamageNumber(enemy.x, enemy.y - 20, 0, '#00ffff', false, "FROZEN!");
+    this.createExplosion(enemy.x, enemy.y, '#00ffff', 30, 0);
+  }
+
+  // Relic star management
+  private spawnRelicStar(): void {
+    const relic = getRandomRelic(this.availableRelics, this.gameState.player.collectedRelicIds, this.context.rng);
+    if (!relic) {
+      // No more unique relics available
+      return;
+    }
+
+    const relicStar = createRelicStar(
+      this.gameState.nextEntityId++,
+      relic,
+      this.canvasWidth,
+      this.canvasHeight,
+      this.context.rng
+    );
+    this.gameState.relicStars.push(relicStar);
+  }
+
+  private updateRelicStars(): void {
+    const { relicStars } = this.gameState;
+    const deltaTime = this.deltaTime;
+
+    for (let i = relicStars.length - 1; i >= 0; i--) {
+      const star = relicStars[i];
+
+      // Update position
+      star.x += star.velocityX * deltaTime;
+      star.y += star.velocityY * deltaTime;
+
+      // Update pulse and glow effects
+      star.pulsePhase += deltaTime * 3;
+      star.glowIntensity = 0.7 + Math.sin(star.pulsePhase) * 0.3;
+
+      // Update trail (fades 5% per 1/60s)
+      if (star.trail.length > 0) {
+        const trailFade = Math.pow(0.95, deltaTime * 60);
+        for (const trailPoint of star.trail) {
+          trailPoint.opacity *= trailFade;
+        }
+        star.trail = star.trail.filter(point => point.opacity > 0.1);
+      }
+      star.trail.unshift({ x: star.x, y: star.y, opacity: 1 });
+      if (star.trail.length > 8) {
+        star.trail.pop();
+      }
+
+      // Update time remaining
+      star.timeRemaining -= deltaTime * 1000;
+
+      // Remove star if expired or off-screen
+      if (star.timeRemaining <= 0 ||
+          star.x < -100 || star.x > this.canvasWidth + 100 ||
+          star.y < -100 || star.y > this.canvasHeight + 100) {
+        relicStars.splice(i, 1);
+        if (this.state.highlightedRelicStarId === star.id) {
+          this.state.highlightedRelicStarId = null;
+        }
+      }
+    }
+  }
+
+  private collectRelicStar(star: RelicStar): void {
+    const { player } = this.gameState;
+
+    addRelic(player, star.relic);
+    this.activateSynergies();
+
+    // Show announcement modal and pause game
+    this.state.announcedRelic = star.relic;
+    this.state.isRelicAnnouncementPaused = true;
+
+    // Create celebration effect
+    this.createExplosion(star.x, star.y, star.relic.auraColor, 40, 0);
+    this.createDamageNumber(star.x, star.y - 20, 0, star.relic.auraColor, false, `${star.relic.icon} ${star.relic.name}`);
+
+    // Remove star
+    const index = this.gameState.relicStars.indexOf(star);
+    if (index > -1) {
+      this.gameState.relicStars.splice(index, 1);
+    }
+
+    // Reset typing if this was the highlighted star
+    if (this.state.highlightedRelicStarId === star.id) {
+      this.resetTyping();
+    }
+  }
+
+  // Activate every synergy the player's skills and relics now complete
+  private activateSynergies(): void {
+    const { player, availableSkills } = this.gameState;
+    const synergies = getNewSynergies(player, availableSkills);
+
+    synergies.forEach((synergy, index) => {
+      player.synergyIds.push(synergy.id);
+      // Losing a synergy and completing it again doesn't grant its one-off rewards twice
+      if (!player.activatedSynergyIds.includes(synergy.id)) {
+        player.activatedSynergyIds.push(synergy.id);
+        synergy.onActivate?.(player);
+      }
+      this.createDamageNumber(player.x, player.y - 80 - index * 25, 0, synergy.color, false, `${synergy.icon} ${synergy.name.toUpperCase()}`);
+    });
+    if (synergies.length > 0) {
+      resolvePlayerStats(player);
+    }
+  }
+
+  // Give up a relic, taking its effects and the synergies it completed with it
+  private discardRelic(relicId: string): void {
+    const { player } = this.gameState;
+    const relic = removeRelic(player, relicId);
+    if (!relic) return;
+
+    this.createDamageNumber(player.x, player.y - 60, 0, relic.auraColor, false, `${relic.icon} ${relic.name.toUpperCase()} DISCARDED`);
+  }
+
+  private closeRelicAnnouncement(): void {
+    this.state.announcedRelic = null;
+    this.state.isRelicAnnouncementPaused = false;
+  }
+
+  private updateRelicStarHighlighting(): void {
+    const { relicStars } = this.gameState;
+
+    if (this.state.currentTypedText.length === 0) {
+      this.state.highlightedRelicStarId = null;
+      // Clear all relic star highlighting
+      relicStars.forEach(star => {
+        star.typedProgress = 0;
+      });
+      return;
+    }
+
+    // Find the best matching relic star
+    let bestMatch: RelicStar | null = null;
+    let bestScore = -1;
+    const typedText = this.state.currentTypedText.toLowerCase();
+
+    // Clear all relic star highlighting first
+    relicStars.forEach(star => {
+      star.typedProgress = 0;
+    });
+
+    for (const star of relicStars) {
+      const word = star.word.toLowerCase();
+
+      if (word.startsWith(typedText)) {
+        const score = typedText.length / word.length;
+        star.typedProgress = score; // Set typing progress
+
+        if (score > bestScore) {
+          bestScore = score;
+          bestMatch = star;
+        }
+      }
+    }
+
+    if (bestMatch && bestScore >= 0.1) { // Require at least 10% match
+      this.state.highlightedRelicStarId = bestMatch.id;
+
+      // Check if word is complete
+      if (bestMatch.word.toLowerCase() === typedText) {
+        recordCompletedWord(this.state.typingMetrics, bestMatch.word);
+        this.collectRelicStar(bestMatch);
+        this.resetTyping();
+      }
+    } else {
+      this.state.highlightedRelicStarId = null;
+    }
+  }
+
+  // Ranged enemies fire a missile whenever they're in position and reloaded (frozen ones can't fire)
+  private updateRangedEnemies(): void {
+    const { player } = this.gameState;
+    const now = this.context.clock.now();
+
+    for (const enemy of this.gameState.enemies) {
+      const ranged = enemy.ranged;
+      if (!ranged || enemy.isFrozen || now < ranged.nextFireAt) continue;
+
+      const distance = Math.sqrt(Math.pow(enemy.x - player.x, 2) + Math.pow(enemy.y - player.y, 2));
+      if (distance > ranged.standoffRadius) continue;
+
+      fireMissile(this.gameState, enemy, this.context);
+      ranged.nextFireAt = now + ranged.fireInterval;
+    }
+  }
+
+  // Support enemies pulse heals and wards and hasten their neighbours - frozen ones are suppressed
+  private updateSupportEnemies(): void {
+    const { enemies } = this.gameState;
+    const now = this.context.clock.now();
+
+    // Haste only lasts while a hastener is close, and wards run out
+    for (const enemy of enemies) {
+      if (enemy.isHasted) enemy.isHasted = false;
+      if (enemy.wardedUntil && now >= enemy.wardedUntil) enemy.wardedUntil = null;
+    }
+
+    for (const supporter of enemies) {
+      const support = supporter.support;
+      if (!support || supporter.isFrozen) continue;
+
+      const role = SUPPORT_ROLES[support.role];
+      const neighbours = enemies.filter(other => other !== supporter && !other.boss &&
+        Math.sqrt(Math.pow(other.x - supporter.x, 2) + Math.pow(other.y - supporter.y, 2)) <= role.radius);
+
+      if (support.role === 'hastener') {
+        // Freezing beats haste
+        for (const neighbour of neighbours) {
+          if (!neighbour.isFrozen) neighbour.isHasted = true;
+        }
+        continue;
+      }
+
+      if (now < support.nextPulseAt) continue;
+      support.nextPulseAt = now + role.pulseInterval;
+      this.createExplosion(supporter.x, supporter.y, role.color, role.radius * 0.5, 0);
+
+      for (const neighbour of neighbours) {
+        if (support.role === 'warder') {
+          neighbour.wardedUntil = now + WARD_DURATION;
+          continue;
+        }
+
+        // Burning enemies can't be healed until the fire goes out
+        if (neighbour.isBurning || neighbour.health >= neighbour.maxHealth) continue;
+        const heal = Math.min(neighbour.maxHealth - neighbour.health, Math.ceil(neighbour.maxHealth * HEAL_FRACTION));
+        neighbour.health += heal;
+        this.createDamageNumber(neighbour.x, neighbour.y - 20, heal, role.color, false, `+${heal}`);
+      }
+    }
+  }
+
+  // Move missiles toward the player and let the ones that reach it hit the shield
+  private updateMissiles(): void {
+    const { missiles, player } = this.gameState;
+    const deltaTime = this.deltaTime;
+
+    for (let i = missiles.length - 1; i >= 0; i--) {
+      const missile = missiles[i];
+      missile.x += missile.velocityX * deltaTime;
+      missile.y += missile.velocityY * deltaTime;
+
+      const dx = missile.x - player.x;
+      const dy = missile.y - player.y;
+      if (Math.sqrt(dx * dx + dy * dy) >= missile.radius + player.radius) continue;
+
+      // Missed the interception - the missile hits the shield
+      player.shield -= missile.damage;
+      this.createDamageNumber(player.x, player.y, missile.damage, '#ff0000');
+      this.createExplosion(missile.x, missile.y, '#ff5722', 20, 0);
+      missiles.splice(i, 1);
+      this.revalidateTyping();
+
+      if (player.shield <= 0) {
+        this.gameState.isGameOver = true;
+        return;
+      }
+    }
+  }
+
+  // Highlight missiles matching the typed text and intercept a completed one (true when any matched)
+  private updateMissileHighlighting(): boolean {
+    const typedText = this.state.currentTypedText.toLowerCase();
+    let hasAnyMatch = false;
+    let completedMissile: Missile | null = null;
+
+    for (const missile of this.gameState.missiles) {
+      if (missile.word.startsWith(typedText)) {
+        missile.typedProgress = typedText.length / missile.word.length;
+        hasAnyMatch = true;
+        if (missile.word === typedText && !completedMissile) {
+          completedMissile = missile;
+        }
+      } else {
+        missile.typedProgress = 0;
+      }
+    }
+
+    if (completedMissile) {
+      recordCompletedWord(this.state.typingMetrics, typedText);
+      this.interceptMissile(completedMissile);
+      this.resetTyping();
+    }
+    return hasAnyMatch;
+  }
+
+  // Shoot down a missile whose word was typed
+  private interceptMissile(missile: Missile): void {
+    const index = this.gameState.missiles.indexOf(missile);
+    if (index > -1) {
+      this.gameState.missiles.splice(index, 1);
+    }
+
+    this.createExplosion(missile.x, missile.y, '#ffeb3b', 20, 0);
+    this.createDamageNumber(missile.x, missile.y - 15, 0, '#ffeb3b', false, 'INTERCEPTED');
+  }
+
+  // Create explosion effect
+  private createExplosion = (x: number, y: number, color: string, radius: number = 30, damage: number = 0): void => {
+    // Only explosions that deal damage get the player's explosion damage bonus, not the visual ones
+    const { player } = this.gameState;
+    const isDamaging = damage > 0;
+    const explosion = importedCreateExplosion(
+      x, y, color,
+      radius,
+      isDamaging ? damage * player.explosionDamageMultiplier : damage,
+      isDamaging ? this.gameState.enemies : [],
+      (enemy, dmg, isCritical) => this.applyDamageToEnemy(enemy, dmg, isCritical, false)
+    );
+    this.state.explosions.push(explosion);
+  };
+
+  // Create damage number
+  private createDamageNumber(x: number, y: number, value: number, color: string, isCritical: boolean = false, text: string = ''): void {
+    const damageNumber = importedCreateDamageNumber(x, y, value, color, isCritical, text);
+    this.state.damageNumbers.push(damageNumber);
+  }
+
+  // Start a new wave
+  private startWave(waveNumber: number): void {
+    const { player } = this.gameState;
+
+    // A wave cleared with typed words and without a single typing error earns a reroll
+    const { errors, completedWords } = this.state.typingMetrics;
+    if (waveNumber > 1 && errors === this.gameState.waveStartErrors && completedWords > this.gameState.waveStartCompletedWords) {
+      player.rerollCharges++;
+      this.createDamageNumber(player.x, player.y - 60, 0, '#f1c40f', false, 'PERFECT WAVE +1 REROLL');
+    }
+    this.gameState.waveStartErrors = errors;
+    this.gameState.waveStartCompletedWords = completedWords;
+
+    this.gameState.wave = waveNumber;
+
+    // Reset typing state for new wave
+    this.resetTyping();
+
+    startWaveMechanic(this.gameState, this.context);
+
+    const effects = this.getRelicEffects();
+    getRelicHooks(player, 'onWaveStart').forEach(onWaveStart => onWaveStart(player, waveNumber, effects));
+
+    // Scripted boss encounters arrive at the start of their wave
+    const bossId = getWaveDefinition(this.context.waves, waveNumber).boss;
+    const bossDefinition = bossId ? getBossDefinitionById(bossId) : null;
+    if (bossDefinition) {
+      const boss = spawnBoss(this.gameState, bossDefinition, this.canvasWidth, this.canvasHeight, this.context);
+      this.createExplosion(boss.x, boss.y, boss.color, boss.radius + 30, 0);
+      this.startBossPhase(boss);
+    }
+  }
+
+  // Update auto-fire system
+  private updateAutoFire(): void {
+    const { player } = this.gameState;
+    const now = this.context.clock.now();
+
+    if (player.autoFireCooldown !== null) {
+      const autoFireInterval = player.autoFireCooldown;
+
+      if (player.nextAutoFireTime && now >= player.nextAutoFireTime) {
+        autoFireAtEnemies(this.gameState, (enemy) => {
+          this.state.autoFireTarget = enemy;
+          this.state.autoFireLaserOpacity = 1;
+
+          // Lock on for 500ms before firing, keep the laser up for 200ms after
+          this.state.pendingShots.push({
+            fireAt: now + 500,
+            targetEnemyId: enemy.id,
+            damage: this.getShotDamage() * 0.8,
+            isCritical: false,
+            isMultiShot: false,
+            isMainShot: false,
+            shotType: 'normal'
+          });
+          this.state.autoFireTargetClearTime = now + 700;
+        }, this.state.currentTypedText);
+
+        player.nextAutoFireTime = now + autoFireInterval;
+      }
+    }
+
+    if (this.state.autoFireTargetClearTime !== null && now >= this.state.autoFireTargetClearTime) {
+      this.state.autoFireTarget = null;
+      this.state.autoFireLaserOpacity = 0;
+      this.state.autoFireTargetClearTime = null;
+    }
+
+    if (this.state.autoFireLaserOpacity > 0) {
+      this.state.autoFireLaserOpacity = Math.max(0, this.state.autoFireLaserOpacity - this.deltaTime * 2);
+    }
+  }
+
+  // Handle level up confirmation
+  private handleLevelUpConfirmation(skillId: string): void {
+    if (!this.gameState.isPausedForLevelUp) return;
+
+    // Only an offered skill can be taken, so prerequisites and rival specialisations always hold
+    if (!this.state.availableSkillChoices.some(s => s.id === skillId)) return;
+
+    const gameStateSkill = this.gameState.availableSkills.find(s => s.id === skillId);
+    if (gameStateSkill) {
+      gameStateSkill.level++;
+      gameStateSkill.applyEffect(this.gameState.player);
+      resolvePlayerStats(this.gameState.player);
+      this.activateSynergies();
+    }
+
+    this.gameState.isPausedForLevelUp = false;
+    this.state.availableSkillChoices = [];
+  }
+
+  // Spend a reroll on a fresh draw of skills
+  private rerollSkillChoices(): void {
+    const { player, availableSkills } = this.gameState;
+    if (!this.gameState.isPausedForLevelUp || player.rerollCharges <= 0) return;
+
+    player.rerollCharges--;
+    this.state.availableSkillChoices = getRandomSkills(availableSkills, this.context.rng, player.banishedSkillIds);
+  }
+
+  // Spend a banish on an offered skill: it never comes up again this run, and another skill takes its place
+  private banishSkillChoice(skillId: string): void {
+    const { player, availableSkills } = this.gameState;
+    const choices = this.state.availableSkillChoices;
+    if (!this.gameState.isPausedForLevelUp || player.banishCharges <= 0) return;
+    if (!choices.some(skill => skill.id === skillId)) return;
+
+    player.banishCharges--;
+    player.banishedSkillIds.push(skillId);
+
+    const [replacement] = getRandomSkills(
+      availableSkills,
+      this.context.rng,
+      [...player.banishedSkillIds, ...choices.map(skill => skill.id)],
+      1
+    );
+    this.state.availableSkillChoices = choices.flatMap(skill => {
+      if (skill.id !== skillId) return [skill];
+      return replacement ? [replacement] : [];
+    });
+  }
+
+  // Pass on the offered skills for a smaller reward - always allowed, even when nothing is left to offer
+  private skipLevelUp(reward: LevelUpSkipReward): void {
+    const { player } = this.gameState;
+    if (!this.gameState.isPausedForLevelUp) return;
+
+    // Close this offer first - the XP reward can open the next one
+    this.gameState.isPausedForLevelUp = false;
+    this.state.availableSkillChoices = [];
+
+    if (reward === 'shield') {
+      player.baseStats.maxShield += SKIP_SHIELD_BONUS;
+      resolvePlayerStats(player);
+      this.createDamageNumber(player.x, player.y - 60, SKIP_SHIELD_BONUS, '#3498db', false, `+${SKIP_SHIELD_BONUS} MAX SHIELD`);
+    } else {
+      this.awardXp(Math.floor(player.xpToNextLevel * SKIP_XP_FRACTION), player.x, player.y - 60);
+    }
+  }
+
+  // Revalidate current typing against remaining enemies and relic stars
+  private revalidateTyping(): void {
+    if (!this.state.currentTypedText) return;
+
+    const typedText = this.state.currentTypedText;
+    const { enemies, relicStars, missiles } = this.gameState;
+
+    // If a relic star matches, preserve the typing and update relic star highlighting (relic stars have priority)
+    if (relicStars.some(star => star.word.toLowerCase().startsWith(typedText))) {
+      this.updateRelicStarHighlighting();
+      return;
+    }
+
+    // If no remaining missile, enemy or command word matches the current typed text, handle wrong typing
+    if (!missiles.some(missile => missile.word.startsWith(typedText)) &&
+        !enemies.some(enemy => getTypingWord(enemy).toLowerCase().startsWith(typedText)) &&
+        !this.getReadyActiveSkills().some(skill => skill.word.startsWith(typedText))) {
+      // Clear the text first - typing invalidated by the world only flashes, without the shield penalty
+      this.state.currentTypedText = '';
+      this.handleWrongTyping('auto');
+    } else {
+      // Update highlighting for all remaining matching missiles and enemies
+      // Pass true to indicate this is from revalidation
+      this.updateEnemyHighlighting(true);
+    }
+  }
+
+  // Toggle the regular pause (not available during a relic announcement)
+  private togglePause(): void {
+    if (this.gameState.isPlaying && !this.gameState.isGameOver && !this.state.isRelicAnnouncementPaused) {
+      this.state.isPaused = !this.state.isPaused;
+    }
+  }
+
+  // Update skill-based abilities (frost and fire)
+  private updateSkillAbilities(): void {
+    const { player } = this.gameState;
+
+    // Check for Arctic Barrage (frost skill) trigger
+    if (player.frostMasteryLevel > 0 && player.frostMasteryKills >= getKillsRequired(player, player.frostMasteryKillsRequired)) {
+      this.fireIceArrows();
+      player.frostMasteryKills = 0; // Reset kill count
+    }
+
+    // Check for Meteor Storm (fire skill) trigger
+    if (player.fireMasteryLevel > 0 && player.fireMasteryKills >= getKillsRequired(player, player.fireMasteryKillsRequired)) {
+      this.fireMeteorStorm();
+      player.fireMasteryKills = 0; // Reset kill count
+    }
+  }
+
+  // Unlocked active skills that are off cooldown
+  private getReadyActiveSkills(): ActiveSkill[] {
+    const { activeSkills, player } = this.gameState;
+    return activeSkills.filter(skill => isActiveSkillUnlocked(skill, player) && skill.currentCooldown <= 0);
+  }
+
+  // What active skill effects can do in the world
+  private getActiveSkillEffects(): ActiveSkillEffects {
+    return {
+      now: this.context.clock.now(),
+      createExplosion: (x, y, color, radius, damage) => this.createExplosion(x, y, color, radius, damage)
+    };
+  }
+
+  // What relic behaviours can do in the world
+  private getRelicEffects(): RelicEffects {
+    const effects = this.getActiveSkillEffects();
+    return {
+      ...effects,
+      rng: this.context.rng,
+      igniteEnemy: (enemy, damage) => igniteEnemy(enemy, damage, effects.now)
+    };
+  }
+
+  // Trigger an active skill whose command word was typed
+  private triggerActiveSkill(skill: ActiveSkill): void {
+    const { player } = this.gameState;
+    const effects = this.getActiveSkillEffects();
+
+    skill.currentCooldown = skill.cooldown;
+    if (skill.duration > 0) {
+      skill.isActive = true;
+      skill.startTime = effects.now;
+    }
+    skill.applyEffect(this.gameState, effects);
+    resolvePlayerStats(player);
+
+    this.createExplosion(player.x, player.y, skill.color, player.radius + 20, 0);
+    this.createDamageNumber(player.x, player.y - 50, 0, skill.color, false, skill.name.toUpperCase());
+  }
+
+  // Count down cooldowns on the simulation clock and remove effects whose duration is over
+  private updateActiveSkills(): void {
+    const { activeSkills, player } = this.gameState;
+    const effects = this.getActiveSkillEffects();
+
+    for (const skill of activeSkills) {
+      if (skill.currentCooldown > 0) {
+        skill.currentCooldown = Math.max(0, skill.currentCooldown - this.stepDurationMs * player.activeSkillRechargeRate);
+      }
+
+      if (skill.isActive && skill.startTime !== null && effects.now >= skill.startTime + skill.duration) {
+        skill.removeEffect(this.gameState, effects);
+        resolvePlayerStats(player);
+        skill.isActive = false;
+        skill.startTime = null;
+      }
+    }
+  }
+}
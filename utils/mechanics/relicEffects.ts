@@ -0,0 +1,77 @@
+/**
+ * Relic effects
+ * Relics and synergies never change the player directly: their stat modifiers are resolved on top of the
+ * player's base stats, so they can be taken away again. Relic behaviours run from hooks the simulation fires.
+ */
+import type { Player, Relic, RelicHooks, ModifiableStat, StatModifier } from '../gameModels';
+import { MODIFIABLE_STATS, SYNERGIES, hasSynergy } from '../gameModels';
+
+const STAT_CAPS: Partial<Record<ModifiableStat, number>> = {
+  projectileSize: 20 // Same hard cap as kinetic mastery
+};
+
+// Modifiers of every relic the player holds and every synergy they have discovered
+const getActiveModifiers = (player: Player): StatModifier[] => {
+  return [
+    ...player.relics.flatMap(relic => relic.modifiers),
+    ...SYNERGIES.filter(synergy => hasSynergy(player, synergy.id)).flatMap(synergy => synergy.modifiers)
+  ];
+};
+
+// A stat's value with modifiers applied to the player's own value
+const applyModifiers = (stat: ModifiableStat, base: number, modifiers: StatModifier[]): number => {
+  let value = base;
+  for (const modifier of modifiers) value += modifier.add ?? 0;
+  for (const modifier of modifiers) value *= modifier.multiply ?? 1;
+  for (const modifier of modifiers) value = Math.max(value, modifier.atLeast ?? value);
+  return Math.min(value, STAT_CAPS[stat] ?? value);
+};
+
+/**
+ * Work out the player's stats from their base stats and the modifiers of their relics and synergies.
+ * Called whenever the base stats, relics or synergies change.
+ */
+export const resolvePlayerStats = (player: Player): void => {
+  const modifiers = getActiveModifiers(player);
+  const previousMaxShield = player.maxShield;
+
+  for (const stat of Object.keys(MODIFIABLE_STATS) as ModifiableStat[]) {
+    player[stat] = applyModifiers(stat, player.baseStats[stat], modifiers.filter(modifier => modifier.stat === stat));
+  }
+
+  // Extra capacity arrives charged, lost capacity takes its charge with it
+  player.shield = Math.min(player.shield + Math.max(0, player.maxShield - previousMaxShield), player.maxShield);
+};
+
+/**
+ * Give the player a relic
+ */
+export const addRelic = (player: Player, relic: Relic): void => {
+  player.relics.push(relic);
+  player.collectedRelicIds.push(relic.id); // Track collected relic for uniqueness
+  resolvePlayerStats(player);
+};
+
+/**
+ * Take a relic away from the player, along with the synergies it completed.
+ * It goes back into the pool, so a later relic star can bring it again.
+ */
+export const removeRelic = (player: Player, relicId: string): Relic | null => {
+  const relic = player.relics.find(held => held.id === relicId);
+  if (!relic) return null;
+
+  player.relics = player.relics.filter(held => held !== relic);
+  player.collectedRelicIds = player.collectedRelicIds.filter(id => id !== relicId);
+  player.synergyIds = player.synergyIds.filter(id =>
+    !SYNERGIES.some(synergy => synergy.id === id && synergy.relicIds.includes(relicId))
+  );
+  resolvePlayerStats(player);
+  return relic;
+};
+
+/**
+ * The handlers the player's relics have for one hook, in the order the relics were collected
+ */
+export const getRelicHooks = <K extends keyof RelicHooks>(player: Player, hook: K): NonNullable<RelicHooks[K]>[] => {
+  return player.relics.flatMap(relic => relic.hooks?.[hook] ?? []) as NonNullable<RelicHooks[K]>[];
+};
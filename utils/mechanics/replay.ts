@@ -0,0 +1,85 @@
+/**
+ * Replay playback
+ * Feeds a run recording back through a simulation tick by tick, with seeking.
+ */
+import type {
+  GameSimulation,
+  RunRecording,
+  SimulationInput
+} from './gameSimulation';
+
+/**
+ * Interface for a replay player driving a simulation
+ */
+export interface ReplayPlayer {
+  recording: RunRecording;
+  isFinished: () => boolean;
+  stepTick: () => void;
+  seek: (tick: number) => void;
+  restart: () => void;
+}
+
+/**
+ * Create a replay player for a recording (restarts the simulation from the recording's seed)
+ */
+export const createReplayPlayer = (simulation: GameSimulation, recording: RunRecording): ReplayPlayer => {
+  let cursor = 0; // Index of the next recorded input to feed
+  let finished = false;
+
+  const restart = () => {
+    simulation.start(recording.seed, recording.options);
+    cursor = 0;
+    finished = false;
+  };
+
+  // Advance the simulation by one tick, feeding every input recorded for that tick
+  const stepTick = () => {
+    if (finished) return;
+
+    const tick = simulation.tick;
+    const inputs: SimulationInput[] = [];
+    while (cursor < recording.inputs.length && recording.inputs[cursor].tick <= tick) {
+      inputs.push(recording.inputs[cursor].input);
+      cursor++;
+    }
+
+    simulation.step(recording.timestepMs, inputs);
+
+    // A run that ended while paused never advances again, so treat that as the end too
+    if (simulation.tick === tick || simulation.tick >= recording.totalTicks || simulation.world.gameState.isGameOver) {
+      finished = true;
+    }
+  };
+
+  // Jump to a tick - seeking backwards replays the run from the start
+  const seek = (tick: number) => {
+    const targetTick = Math.max(0, Math.min(tick, recording.totalTicks));
+
+    simulation.runUnwrapped(() => {
+      if (targetTick < simulation.tick) {
+        restart();
+      }
+
+      while (!finished && simulation.tick < targetTick) {
+        stepTick();
+      }
+    });
+  };
+
+  restart();
+
+  return {
+    recording,
+    isFinished: () => finished,
+    stepTick,
+    seek,
+    restart
+  };
+};
+
+/**
+ * Serialize a recording for download
+ */
+export const serializeRecording = (recording: RunRecording): string => {
+  return JSON.stringify(recording);
+};
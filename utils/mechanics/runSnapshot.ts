@@ -0,0 +1,160 @@
+/**
+ * Run snapshots
+ * Converts a simulation world to plain JSON data and back, so an in-progress run can be saved and resumed.
+ * Skills, active skills and relics hold effect closures, so they are stored by id and rehydrated from the game's definitions.
+ */
+import type {
+  GameState,
+  Player,
+  Enemy,
+  Skill,
+  ActiveSkill,
+  RelicStar
+} from '../gameModels';
+import { generateSkills, generateActiveSkills, generateRelics } from '../gameModels';
+import type { RecordedInput, RunCheckpoint, RunOptions, SimulationWorld } from './gameSimulation';
+
+export const SNAPSHOT_FORMAT_VERSION = 1;
+
+/**
+ * Interface for a skill's progress, stored by id
+ */
+export interface SkillProgress {
+  id: string;
+  level: number;
+}
+
+/**
+ * Active skill state, stored by id
+ */
+export type ActiveSkillProgress = Pick<ActiveSkill, 'id' | 'currentCooldown' | 'isActive' | 'startTime'>;
+
+/**
+ * Player stats with collected relics stored by id
+ */
+export type SerializedPlayer = Omit<Player, 'relics'> & { relicIds: string[] };
+
+/**
+ * Relic star with its relic stored by id
+ */
+export type SerializedRelicStar = Omit<RelicStar, 'relic'> & { relicId: string };
+
+/**
+ * Game state with skills and relics stored by id
+ */
+export type SerializedGameState = Omit<GameState, 'player' | 'availableSkills' | 'activeSkills' | 'relicStars'> & {
+  player: SerializedPlayer;
+  skills: SkillProgress[];
+  activeSkills: ActiveSkillProgress[];
+  relicStars: SerializedRelicStar[];
+};
+
+/**
+ * World with every closure-holding object replaced by its id
+ */
+export type SerializedWorld = Omit<SimulationWorld, 'gameState' | 'availableSkillChoices' | 'announcedRelic'> & {
+  gameState: SerializedGameState;
+  availableSkillChoiceIds: string[];
+  announcedRelicId: string | null;
+};
+
+/**
+ * Everything needed to continue a run exactly where it was left
+ */
+export interface RunSnapshot {
+  version: number; // Snapshot format version
+  savedAt: number; // Wall-clock time the snapshot was taken (for display only)
+  canvasWidth: number;
+  canvasHeight: number;
+  timestepMs: number;
+  tick: number;
+  time: number; // Simulation clock
+  rngState: number;
+  options: RunOptions;
+  inputs: RecordedInput[]; // Inputs so far, so the resumed run can still be replayed from the start
+  checkpoints: RunCheckpoint[]; // Checkpoints so far, so the resumed run can still be verified
+  world: SerializedWorld;
+}
+
+// Deep copy plain data (the world may be a reactive proxy)
+const clonePlain = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+/**
+ * Convert a world to plain data
+ */
+export const serializeWorld = (world: SimulationWorld): SerializedWorld => {
+  const { gameState, availableSkillChoices, announcedRelic, ...rest } = world;
+  const { player, availableSkills, activeSkills, relicStars, ...gameStateRest } = gameState;
+  const { relics, ...playerRest } = player;
+
+  return clonePlain({
+    ...rest,
+    gameState: {
+      ...gameStateRest,
+      player: { ...playerRest, relicIds: relics.map(relic => relic.id) },
+      skills: availableSkills.map(skill => ({ id: skill.id, level: skill.level })),
+      activeSkills: activeSkills.map(({ id, currentCooldown, isActive, startTime }) => ({ id, currentCooldown, isActive, startTime })),
+      relicStars: relicStars.map(({ relic, ...star }) => ({ ...star, relicId: relic.id }))
+    },
+    availableSkillChoiceIds: availableSkillChoices.map(skill => skill.id),
+    announcedRelicId: announcedRelic ? announcedRelic.id : null
+  });
+};
+
+/**
+ * Rebuild a world from plain data.
+ * Player stats are taken as saved - effects are never re-applied, so nothing is counted twice.
+ */
+export const deserializeWorld = (data: SerializedWorld): SimulationWorld => {
+  const { gameState, availableSkillChoiceIds, announcedRelicId, ...rest } = clonePlain(data);
+  const { player, skills, activeSkills: activeSkillProgress, relicStars, ...gameStateRest } = gameState;
+  const { relicIds, ...playerRest } = player;
+
+  // Fresh definitions provide the effect closures, the saved progress provides the levels
+  const availableSkills = generateSkills();
+  for (const skill of availableSkills) {
+    const progress = skills.find(saved => saved.id === skill.id);
+    skill.level = progress ? progress.level : 0;
+  }
+
+  // An active effect is restored as running, not applied again - its stat changes are already in the player
+  const activeSkills = generateActiveSkills();
+  for (const skill of activeSkills) {
+    const progress = activeSkillProgress.find(saved => saved.id === skill.id);
+    if (progress) {
+      skill.currentCooldown = progress.currentCooldown;
+      skill.isActive = progress.isActive;
+      skill.startTime = progress.startTime;
+    }
+  }
+
+  const relicsById = new Map(generateRelics().map(relic => [relic.id, relic]));
+  const findRelic = (id: string) => {
+    const relic = relicsById.get(id);
+    if (!relic) {
+      throw new Error(`Unknown relic in saved run: ${id}`);
+    }
+    return relic;
+  };
+
+  const enemies: Enemy[] = gameStateRest.enemies;
+  const autoFireTarget = rest.autoFireTarget
+    ? enemies.find(enemy => enemy.id === rest.autoFireTarget!.id) ?? rest.autoFireTarget
+    : null;
+
+  return {
+    ...rest,
+    autoFireTarget,
+    gameState: {
+      ...gameStateRest,
+      player: { ...playerRest, relics: relicIds.map(findRelic) },
+      availableSkills,
+      activeSkills,
+      relicStars: relicStars.map(({ relicId, ...star }) => ({ ...star, relic: findRelic(relicId) }))
+    },
+    availableSkillChoices: availableSkillChoiceIds
+      .map(id => availableSkills.find(skill => skill.id === id))
+      .filter((skill): skill is Skill => skill !== undefined),
+    announcedRelic: announcedRelicId ? findRelic(announcedRelicId) : null
+  };
+};
@@ -0,0 +1,157 @@
+/**
+ * Run verification
+ * Replays a recording headlessly and checks that it reproduces the result claimed for it,
+ * reporting the first point where the replay stopped matching the original run.
+ */
+import {
+  GameSimulation,
+  type RunRecording,
+  type RunCheckpoint
+} from './gameSimulation';
+import { createReplayPlayer } from './replay';
+
+/**
+ * Interface for the result a player claims for a recorded run
+ */
+export interface RunClaim {
+  score: number;
+  wave: number;
+  gameWon: boolean;
+}
+
+/**
+ * Interface for the first difference between a replay and the run it reproduces
+ */
+export interface ReplayDivergence {
+  tick: number;
+  time: number; // Game time in milliseconds since the run started
+  field: string;
+  expected: number | boolean; // Value from the recording or the submitted claim
+  actual: number | boolean; // Value the replay produced
+  message: string;
+}
+
+/**
+ * Result of verifying a run: the finished simulation when it matches, the divergence when it doesn't
+ */
+export type RunVerificationResult =
+  | { verified: true; simulation: GameSimulation }
+  | { verified: false; divergence: ReplayDivergence };
+
+// Checkpoint values compared in order, gameplay values first so the diagnostic names the most telling one
+const CHECKPOINT_FIELDS: Exclude<keyof RunCheckpoint, 'tick'>[] = [
+  'score',
+  'wave',
+  'level',
+  'enemiesKilled',
+  'enemyCount',
+  'shield',
+  'time',
+  'rngState'
+];
+
+const createDivergence = (
+  tick: number,
+  time: number,
+  field: string,
+  expected: number | boolean,
+  actual: number | boolean,
+  source: 'recording' | 'submission' = 'recording'
+): ReplayDivergence => {
+  return {
+    tick,
+    time,
+    field,
+    expected,
+    actual,
+    message: `Replay diverged at tick ${tick} (${(time / 1000).toFixed(1)}s): ${field} is ${actual} in the replay but ${expected} in the ${source}`
+  };
+};
+
+// First field that differs between a recorded checkpoint and the replay's, or null when they match
+const compareCheckpoints = (recorded: RunCheckpoint, replayed: RunCheckpoint, startTime: number): ReplayDivergence | null => {
+  for (const field of CHECKPOINT_FIELDS) {
+    if (recorded[field] !== replayed[field]) {
+      return createDivergence(replayed.tick, replayed.time - startTime, field, recorded[field], replayed[field]);
+    }
+  }
+  return null;
+};
+
+/**
+ * A replay being verified a slice at a time, so a long run can be checked without blocking everything else
+ */
+export interface RunVerifier {
+  // Replay up to maxTicks more ticks: the result once verification is over, null while it's still going
+  step: (maxTicks: number) => RunVerificationResult | null;
+}
+
+/**
+ * Start replaying a recording from its seed, checking every checkpoint along the way and then the claimed result
+ */
+export const createRunVerifier = (recording: RunRecording, claim: RunClaim): RunVerifier => {
+  const simulation = new GameSimulation({
+    canvasWidth: recording.canvasWidth,
+    canvasHeight: recording.canvasHeight
+  });
+  const player = createReplayPlayer(simulation, recording);
+  const { gameState } = simulation.world;
+  let checkpointIndex = 0;
+
+  const getRunTime = () => simulation.getGameTime() - gameState.startTime;
+  const fail = (divergence: ReplayDivergence): RunVerificationResult => ({ verified: false, divergence });
+
+  // Checks once the replay has played every recorded tick
+  const finish = (): RunVerificationResult => {
+    // The replay must last exactly as long as the original run, and the run must be over
+    if (simulation.tick !== recording.totalTicks || checkpointIndex !== recording.checkpoints.length) {
+      return fail(createDivergence(simulation.tick, getRunTime(), 'totalTicks', recording.totalTicks, simulation.tick));
+    }
+    if (!gameState.isGameOver) {
+      return fail(createDivergence(simulation.tick, getRunTime(), 'isGameOver', true, false, 'submission'));
+    }
+
+    const finalValues: [keyof RunClaim, number | boolean][] = [
+      ['score', gameState.score],
+      ['wave', gameState.wave],
+      ['gameWon', gameState.gameWon]
+    ];
+    for (const [field, actual] of finalValues) {
+      if (claim[field] !== actual) {
+        return fail(createDivergence(simulation.tick, getRunTime(), field, claim[field], actual, 'submission'));
+      }
+    }
+
+    return { verified: true, simulation };
+  };
+
+  const step = (maxTicks: number): RunVerificationResult | null => {
+    for (let ticks = 0; ticks < maxTicks && !player.isFinished(); ticks++) {
+      player.stepTick();
+
+      // Compare each checkpoint as soon as the replay reaches it
+      while (checkpointIndex < simulation.checkpoints.length) {
+        const replayed = simulation.checkpoints[checkpointIndex];
+        const recorded = recording.checkpoints[checkpointIndex];
+        if (!recorded) {
+          return fail(createDivergence(replayed.tick, getRunTime(), 'checkpoints', recording.checkpoints.length, checkpointIndex + 1));
+        }
+
+        const divergence = compareCheckpoints(recorded, replayed, gameState.startTime);
+        if (divergence) return fail(divergence);
+        checkpointIndex++;
+      }
+    }
+
+    return player.isFinished() ? finish() : null;
+  };
+
+  return { step };
+};
+
+/**
+ * Replay a recording from its seed in one go and check it reproduces the claimed result
+ */
+export const verifyRun = (recording: RunRecording, claim: RunClaim): RunVerificationResult => {
+  return createRunVerifier(recording, claim).step(Infinity) as RunVerificationResult;
+};
@@ -0,0 +1,101 @@
+/**
+ * Simulation core
+ * Contains the seeded random number generator and the game clock used by the simulation,
+ * so that the same seed and the same inputs always reproduce the same run.
+ */
+import type { WordProvider } from '../wordGenerator';
+import type { WaveSet } from '../waveScript';
+
+/**
+ * Interface for a seeded source of random numbers
+ */
+export interface RandomSource {
+  seed: number;
+  next: () => number; // Returns a float in [0, 1), like Math.random()
+  getState: () => number;
+  setState: (state: number) => void;
+}
+
+/**
+ * Interface for the simulated game clock
+ */
+export interface GameClock {
+  now: () => number; // Simulated time in milliseconds since the run started
+  advance: (ms: number) => void;
+  setTime: (ms: number) => void;
+}
+
+/**
+ * Everything a game mechanic needs to stay deterministic
+ */
+export interface SimulationContext {
+  rng: RandomSource;
+  clock: GameClock;
+  words: WordProvider; // Source of the words to type this run
+  waves: WaveSet; // Definitions of the run's waves
+}
+
+/**
+ * Create a seeded random source (mulberry32)
+ */
+export const createRandomSource = (seed: number): RandomSource => {
+  let state = seed >>> 0;
+
+  return {
+    seed: seed >>> 0,
+    next: () => {
+      state = (state + 0x6d2b79f5) >>> 0;
+      let t = state;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    },
+    getState: () => state,
+    setState: (newState: number) => {
+      state = newState >>> 0;
+    }
+  };
+};
+
+/**
+ * Create a simulated clock that only moves when the simulation advances it
+ */
+export const createGameClock = (startTime: number = 0): GameClock => {
+  let time = startTime;
+
+  return {
+    now: () => time,
+    advance: (ms: number) => {
+      time += ms;
+    },
+    setTime: (ms: number) => {
+      time = ms;
+    }
+  };
+};
+
+/**
+ * Create a fresh simulation context for a run
+ */
+export const createSimulationContext = (seed: number, words: WordProvider, waves: WaveSet): SimulationContext => {
+  return {
+    rng: createRandomSource(seed),
+    clock: createGameClock(),
+    words,
+    waves
+  };
+};
+
+/**
+ * Generate a new run seed (the only place a run is allowed to use Math.random)
+ */
+export const createRunSeed = (): number => {
+  return Math.floor(Math.random() * 4294967296) >>> 0;
+};
+
+/**
+ * Pick a random element from a list
+ */
+export const pickRandom = <T>(rng: RandomSource, items: T[]): T => {
+  return items[Math.floor(rng.next() * items.length)];
+};
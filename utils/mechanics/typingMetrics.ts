@@ -0,0 +1,255 @@
+/**
+ * Typing metrics
+ * Tracks the player's typing performance during a run: speed, accuracy, missed keys and slow key pairs.
+ * Times are simulation times, so metrics are reproduced exactly by replays and survive save/resume.
+ */
+
+const WPM_SAMPLE_INTERVAL = 10000; // Take a WPM sample every 10 seconds of game time
+const CHARACTERS_PER_WORD = 5; // Standard WPM word length
+const MIN_BIGRAM_SAMPLES = 3; // Key pairs typed fewer times than this are too noisy to rank
+const WEAK_KEY_DECAY = 0.85; // Each correct keystroke keeps this much of a key's weakness
+const MIN_WEAKNESS = 0.05; // Weaknesses below this are forgotten
+
+/**
+ * Interface for accumulated timings of one key pair
+ */
+export interface BigramTiming {
+  totalTime: number;
+  count: number;
+}
+
+/**
+ * Interface for the typing speed over one sample window
+ */
+export interface WpmSample {
+  time: number; // Game time at the end of the window, since the run started
+  grossWpm: number;
+  netWpm: number;
+}
+
+/**
+ * Interface for the typing metrics of a run
+ */
+export interface TypingMetrics {
+  startTime: number;
+  totalKeystrokes: number; // Letter keys pressed
+  correctKeystrokes: number;
+  errors: number;
+  backspaces: number;
+  completedWords: number;
+  completedCharacters: number;
+  keyPresses: Record<string, number>; // Presses per typed letter
+  keyMisses: Record<string, number>; // Misses per letter that should have been typed
+  weakKeys: Record<string, number>; // Recent misses per letter, fading as the letter is typed correctly
+  weakBigrams: Record<string, number>; // Recent misses per key pair, fading the same way
+  bigrams: Record<string, BigramTiming>; // Time from the first letter of a pair to the second
+  lastKeystrokeTime: number | null; // Time of the last correct keystroke in the word being typed
+  wordStartTime: number | null; // Time of the first keystroke of the word being typed
+  firstKeystrokeDelayTotal: number; // Sum of times from an enemy spawning to starting its word
+  firstKeystrokeDelayCount: number;
+  wpmSamples: WpmSample[];
+  nextSampleTime: number;
+  sampleKeystrokes: number; // Keystroke count at the start of the current sample window
+  sampleErrors: number;
+}
+
+/**
+ * Interface for a ranked slow key pair
+ */
+export interface SlowBigram {
+  bigram: string;
+  averageTime: number;
+  count: number;
+}
+
+/**
+ * Interface for the metrics summarized for display
+ */
+export interface TypingSummary {
+  grossWpm: number;
+  netWpm: number;
+  accuracy: number; // 0-1
+  completedWords: number;
+  errors: number;
+  averageFirstKeystrokeTime: number | null; // Milliseconds, null until a word has been typed
+  slowestBigrams: SlowBigram[];
+  keyMisses: Record<string, number>;
+  keyPresses: Record<string, number>;
+  wpmSamples: WpmSample[];
+}
+
+/**
+ * Create empty typing metrics for a run starting at the given time
+ */
+export const createTypingMetrics = (startTime: number = 0): TypingMetrics => {
+  return {
+    startTime,
+    totalKeystrokes: 0,
+    correctKeystrokes: 0,
+    errors: 0,
+    backspaces: 0,
+    completedWords: 0,
+    completedCharacters: 0,
+    keyPresses: {},
+    keyMisses: {},
+    weakKeys: {},
+    weakBigrams: {},
+    bigrams: {},
+    lastKeystrokeTime: null,
+    wordStartTime: null,
+    firstKeystrokeDelayTotal: 0,
+    firstKeystrokeDelayCount: 0,
+    wpmSamples: [],
+    nextSampleTime: startTime + WPM_SAMPLE_INTERVAL,
+    sampleKeystrokes: 0,
+    sampleErrors: 0
+  };
+};
+
+// Fade a weakness after a correct keystroke, forgetting it once it's small enough
+const decayWeakness = (weaknesses: Record<string, number>, key: string): void => {
+  if (weaknesses[key] === undefined) return;
+
+  weaknesses[key] *= WEAK_KEY_DECAY;
+  if (weaknesses[key] < MIN_WEAKNESS) {
+    delete weaknesses[key];
+  }
+};
+
+// Words per minute from a keystroke count and error count over a duration
+const calculateWpm = (keystrokes: number, errors: number, durationMs: number) => {
+  const minutes = durationMs / 60000;
+  if (minutes <= 0) return { grossWpm: 0, netWpm: 0 };
+
+  const grossWpm = keystrokes / CHARACTERS_PER_WORD / minutes;
+  const netWpm = Math.max(0, grossWpm - errors / minutes);
+  return { grossWpm, netWpm };
+};
+
+/**
+ * Record a letter keystroke.
+ * previousKey is the letter typed before it in the same word, or null when it starts a word.
+ */
+export const recordKeystroke = (
+  metrics: TypingMetrics,
+  key: string,
+  previousKey: string | null,
+  isCorrect: boolean,
+  time: number
+): void => {
+  metrics.totalKeystrokes++;
+  metrics.keyPresses[key] = (metrics.keyPresses[key] || 0) + 1;
+
+  if (!isCorrect) {
+    metrics.lastKeystrokeTime = null;
+    metrics.wordStartTime = null;
+    return;
+  }
+
+  metrics.correctKeystrokes++;
+  decayWeakness(metrics.weakKeys, key);
+  if (previousKey !== null) {
+    decayWeakness(metrics.weakBigrams, previousKey + key);
+  }
+
+  if (previousKey === null) {
+    metrics.wordStartTime = time;
+  } else if (metrics.lastKeystrokeTime !== null) {
+    const bigram = previousKey + key;
+    const timing = metrics.bigrams[bigram] || (metrics.bigrams[bigram] = { totalTime: 0, count: 0 });
+    timing.totalTime += time - metrics.lastKeystrokeTime;
+    timing.count++;
+  }
+  metrics.lastKeystrokeTime = time;
+};
+
+/**
+ * Record a wrong keystroke against the letter that should have been typed (and the pair it ends)
+ */
+export const recordTypingError = (metrics: TypingMetrics, expectedKey: string | null, previousKey: string | null): void => {
+  metrics.errors++;
+
+  // A wrong first letter matches no word, so there is no letter to blame
+  if (expectedKey === null) return;
+
+  metrics.keyMisses[expectedKey] = (metrics.keyMisses[expectedKey] || 0) + 1;
+  metrics.weakKeys[expectedKey] = (metrics.weakKeys[expectedKey] || 0) + 1;
+
+  if (previousKey !== null) {
+    const bigram = previousKey + expectedKey;
+    metrics.weakBigrams[bigram] = (metrics.weakBigrams[bigram] || 0) + 1;
+  }
+};
+
+/**
+ * Record a backspace
+ */
+export const recordBackspace = (metrics: TypingMetrics): void => {
+  metrics.backspaces++;
+  // The pair timing across a correction isn't meaningful
+  metrics.lastKeystrokeTime = null;
+};
+
+/**
+ * Record a completed word, with the spawn time of its target when it was an enemy
+ */
+export const recordCompletedWord = (metrics: TypingMetrics, word: string, targetSpawnTime?: number): void => {
+  metrics.completedWords++;
+  metrics.completedCharacters += word.length;
+
+  if (targetSpawnTime !== undefined && metrics.wordStartTime !== null) {
+    metrics.firstKeystrokeDelayTotal += Math.max(0, metrics.wordStartTime - targetSpawnTime);
+    metrics.firstKeystrokeDelayCount++;
+  }
+  metrics.wordStartTime = null;
+};
+
+/**
+ * Take WPM samples for every sample window that has ended by the given time
+ */
+export const updateTypingMetrics = (metrics: TypingMetrics, time: number): void => {
+  while (time >= metrics.nextSampleTime) {
+    const { grossWpm, netWpm } = calculateWpm(
+      metrics.totalKeystrokes - metrics.sampleKeystrokes,
+      metrics.errors - metrics.sampleErrors,
+      WPM_SAMPLE_INTERVAL
+    );
+
+    metrics.wpmSamples.push({
+      time: metrics.nextSampleTime - metrics.startTime,
+      grossWpm,
+      netWpm
+    });
+    metrics.sampleKeystrokes = metrics.totalKeystrokes;
+    metrics.sampleErrors = metrics.errors;
+    metrics.nextSampleTime += WPM_SAMPLE_INTERVAL;
+  }
+};
+
+/**
+ * Summarize the metrics of a run up to the given time
+ */
+export const getTypingSummary = (metrics: TypingMetrics, time: number, bigramCount: number = 5): TypingSummary => {
+  const { grossWpm, netWpm } = calculateWpm(metrics.totalKeystrokes, metrics.errors, time - metrics.startTime);
+
+  const slowestBigrams = Object.entries(metrics.bigrams)
+    .filter(([, timing]) => timing.count >= MIN_BIGRAM_SAMPLES)
+    .map(([bigram, timing]) => ({ bigram, averageTime: timing.totalTime / timing.count, count: timing.count }))
+    .sort((a, b) => b.averageTime - a.averageTime)
+    .slice(0, bigramCount);
+
+  return {
+    grossWpm,
+    netWpm,
+    accuracy: metrics.totalKeystrokes > 0 ? metrics.correctKeystrokes / metrics.totalKeystrokes : 1,
+    completedWords: metrics.completedWords,
+    errors: metrics.errors,
+    averageFirstKeystrokeTime: metrics.firstKeystrokeDelayCount > 0
+      ? metrics.firstKeystrokeDelayTotal / metrics.firstKeystrokeDelayCount
+      : null,
+    slowestBigrams,
+    keyMisses: { ...metrics.keyMisses },
+    keyPresses: { ...metrics.keyPresses },
+    wpmSamples: [...metrics.wpmSamples]
+  };
+};
@@ -1,3 +1,6 @@
+import { type SupportRole, type EliteAffix, SUPPORT_ROLES, ELITE_AFFIXES } from '../gameModels';
+import { createRandomSource } from '../mechanics/simulationCore';
+
 /**
  * Convert a hex color to RGB components
  */
@@ -279,9 +282,12 @@ export const drawPlayer = (ctx: CanvasRenderingContext2D, player: any): void =>
 export const drawEnemy = (ctx: CanvasRenderingContext2D, enemy: any): void => {
   const pulseAmount = enemy.pulsePhase ? Math.sin(enemy.pulsePhase) * 0.1 : 0; // Reduced pulse for performance
   const glowSize = enemy.radius * (1.1 + pulseAmount); // Reduced glow size
+  // Stealth enemies stay cloaked - faded, without their glow or the default highlight -
+  // until the player types the first correct character of their word
+  const isCloaked = !!enemy.stealth && enemy.typedProgress === 0;
 
   // Enhanced lightning-like glow effects for all enemies with performance optimization
-  if (enemy.glowColor) {
+  if (enemy.glowColor && !isCloaked) {
     // Create different glow intensities based on enemy type
     let glowIntensity = 0.3; // Base glow for regular enemies
     let glowLayers = 2; // Number of glow layers
@@ -338,6 +344,11 @@ export const drawEnemy = (ctx: CanvasRenderingContext2D, enemy: any): void => {
     }
   }
 
+  ctx.save();
+  if (isCloaked) {
+    ctx.globalAlpha = 0.4;
+  }
+
   // Determine enemy type based on shape property
   if (enemy.shape === 'hexagon') {
     // Elite enemies are UFOs
@@ -345,10 +356,35 @@ export const drawEnemy = (ctx: CanvasRenderingContext2D, enemy: any): void => {
   } else if (enemy.shape === 'octagon') {
     // Boss enemies are large meteors
     drawMeteor(ctx, enemy, true);
+  } else if (enemy.shape === 'splitter') {
+    // Splitters are twin pods joined by a crack
+    drawSplitter(ctx, enemy);
   } else {
     // Regular enemies are small space crafts
     drawSpaceCraft(ctx, enemy);
   }
+  ctx.restore();
+
+  // Armor plates around the body until the shield word is typed
+  if (enemy.shieldWord) {
+    drawArmor(ctx, enemy);
+  }
+
+  // Targeting reticle around enemies that fire missiles
+  if (enemy.ranged) {
+    drawReticle(ctx, enemy);
+  }
+
+  // Support auras and the effects they put on other enemies
+  if (enemy.support) {
+    drawSupportAura(ctx, enemy);
+  }
+  if (enemy.wardedUntil) {
+    drawWard(ctx, enemy);
+  }
+  if (enemy.isHasted) {
+    drawHaste(ctx, enemy);
+  }
 
   // Draw enemy word - positioned based on spawn side for better visibility
   ctx.font = 'bold 24px Arial'; // Increased from 16px to 24px for better visibility
@@ -366,16 +402,37 @@ export const drawEnemy = (ctx: CanvasRenderingContext2D, enemy: any): void => {
     textY = enemy.y - enemy.radius - 20;
   }
 
+  // An armored enemy's shield word is typed first, so it sits above the locked main word
+  const typingWord = enemy.shieldWord || enemy.word;
+  let wordY = textY;
+  if (enemy.shieldWord) {
+    if (enemy.spawnSide === 'top') {
+      textY += 28;
+    } else {
+      wordY = textY - 28;
+    }
+  }
+
+  // Stealth enemies show their obscured word - the letters the player has typed are always shown as typed
+  const shownWord = enemy.stealth ? enemy.stealth.displayWord : typingWord;
+  // Mirrored elites show their word reversed, so the typed letters fill in from the right
+  const isMirrored = !!enemy.affixes?.includes('mirrored');
+
   // Draw enemy word with highlighting if it's the highlighted enemy
   if (enemy.isHighlighted && enemy.typedProgress > 0) {
     // Calculate the number of characters typed based on progress
-    const typedLength = Math.floor(enemy.typedProgress * enemy.word.length);
-    const typedPortion = enemy.word.substring(0, typedLength);
-    const remainingPortion = enemy.word.substring(typedLength);
+    const typedLength = Math.floor(enemy.typedProgress * typingWord.length);
+    let typedPortion = typingWord.substring(0, typedLength);
+    let remainingPortion = shownWord.substring(typedLength);
+    if (isMirrored) {
+      typedPortion = reverseText(typedPortion);
+      remainingPortion = reverseText(remainingPortion);
+    }
+    const fullText = isMirrored ? remainingPortion + typedPortion : typedPortion + remainingPortion;
 
     // Measure text to position the parts correctly
     const typedWidth = ctx.measureText(typedPortion).width;
-    const totalWidth = ctx.measureText(enemy.word).width;
+    const totalWidth = ctx.measureText(fullText).width;
     const remainingWidth = ctx.measureText(remainingPortion).width;
 
     // Determine typed portion color based on flash effect
@@ -385,13 +442,13 @@ export const drawEnemy = (ctx: CanvasRenderingContext2D, enemy: any): void => {
 
     // Calculate positioning for each portion
     const startX = enemy.x - totalWidth / 2;
-    const typedX = startX + typedWidth / 2;
-    const remainingX = startX + typedWidth + remainingWidth / 2;
+    const typedX = isMirrored ? startX + remainingWidth : startX;
+    const remainingX = isMirrored ? startX : startX + typedWidth;
 
     // Draw background stroke for both portions
     ctx.strokeStyle = 'rgba(0, 0, 0, 0.8)';
     ctx.lineWidth = 3;
-    ctx.strokeText(enemy.word, enemy.x, textY);
+    ctx.strokeText(fullText, enemy.x, wordY);
 
     // Draw typed portion with appropriate color and glow
     if (enemy.wrongTypingFlash > 0) {
@@ -403,7 +460,7 @@ export const drawEnemy = (ctx: CanvasRenderingContext2D, enemy: any): void => {
     }
     ctx.fillStyle = typedColor;
     ctx.textAlign = 'left';
-    ctx.fillText(typedPortion, startX, textY);
+    ctx.fillText(typedPortion, typedX, wordY);
 
     // Reset shadow and draw remaining portion (white)
     ctx.shadowBlur = 0;
@@ -411,14 +468,18 @@ export const drawEnemy = (ctx: CanvasRenderingContext2D, enemy: any): void => {
 
     // Determine remaining text color based on enemy type
     let remainingColor = '#ffffff'; // Default white
-    if (enemy.enemyType === 'blue') {
+    if (enemy.shieldWord) {
+      remainingColor = '#bdc3c7'; // Silver for shield words
+    } else if (enemy.enemyType === 'blue') {
       remainingColor = '#4A90E2'; // Blue for bouncing enemies
     } else if (enemy.enemyType === 'purple') {
       remainingColor = '#8B5CF6'; // Purple for multi-shot enemies
+    } else if (enemy.enemyType === 'splitter') {
+      remainingColor = '#1ABC9C'; // Teal for splitters
     }
 
     ctx.fillStyle = remainingColor;
-    ctx.fillText(remainingPortion, startX + typedWidth, textY);
+    ctx.fillText(remainingPortion, remainingX, wordY);
 
     // Reset text alignment
     ctx.textAlign = 'center';
@@ -426,35 +487,87 @@ export const drawEnemy = (ctx: CanvasRenderingContext2D, enemy: any): void => {
     // Draw normal text with stroke
     ctx.strokeStyle = 'rgba(0, 0, 0, 0.8)';
     ctx.lineWidth = 3;
-    ctx.strokeText(enemy.word, enemy.x, textY);
+    ctx.strokeText(isMirrored ? reverseText(shownWord) : shownWord, enemy.x, wordY);
 
     // Determine text color based on enemy type and highlight status
     let textColor = '#ffffff'; // Default white
 
-    if (enemy.enemyType === 'blue') {
+    if (enemy.shieldWord) {
+      textColor = '#bdc3c7'; // Silver for shield words
+    } else if (enemy.enemyType === 'blue') {
       textColor = '#4A90E2'; // Blue for bouncing enemies
     } else if (enemy.enemyType === 'purple') {
       textColor = '#8B5CF6'; // Purple for multi-shot enemies
+    } else if (enemy.enemyType === 'splitter') {
+      textColor = '#1ABC9C'; // Teal for splitters
     }
 
-    // Override with yellow if highlighted (but not when typing is in progress)
-    if (enemy.isHighlighted && enemy.typedProgress === 0) {
+    // Cloaked enemies are greyed out, never highlighted
+    if (isCloaked) {
+      textColor = '#95a5a6'; // Grey for cloaked stealth enemies
+    } else if (enemy.isHighlighted && enemy.typedProgress === 0) {
+      // Override with yellow if highlighted (but not when typing is in progress)
       textColor = '#ffff00'; // Yellow for highlighted enemies
     }
 
     ctx.fillStyle = textColor;
+    ctx.fillText(isMirrored ? reverseText(shownWord) : shownWord, enemy.x, wordY);
+  }
+
+  // The main word stays locked (dimmed) until the armor is broken
+  if (enemy.shieldWord) {
+    ctx.strokeStyle = 'rgba(0, 0, 0, 0.6)';
+    ctx.lineWidth = 3;
+    ctx.strokeText(enemy.word, enemy.x, textY);
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.35)';
     ctx.fillText(enemy.word, enemy.x, textY);
   }
 
   // Draw HP bar positioned right below the text with proper spacing
   drawEnemyHPBar(ctx, enemy, textY);
 
+  // Elite affixes are labelled under the HP bar
+  if (enemy.affixes?.length) {
+    drawAffixLabels(ctx, enemy, textY + 28);
+  }
+
   // Enhanced frozen effect with good performance
   if (enemy.isFrozen) {
     drawFrozenEffect(ctx, enemy);
   }
 };
 
+// Letters of a text in reverse order
+const reverseText = (text: string): string => {
+  return text.split('').reverse().join('');
+};
+
+// Affix names side by side, each in its own color
+const drawAffixLabels = (ctx: CanvasRenderingContext2D, enemy: any, y: number): void => {
+  const labels: { text: string; color: string }[] = enemy.affixes.map((affix: EliteAffix) => ({
+    text: ELITE_AFFIXES[affix].label.toUpperCase(),
+    color: ELITE_AFFIXES[affix].color
+  }));
+  const gap = 8;
+
+  ctx.save();
+  ctx.font = 'bold 11px Arial';
+  ctx.textAlign = 'left';
+  ctx.textBaseline = 'middle';
+  ctx.strokeStyle = 'rgba(0, 0, 0, 0.8)';
+  ctx.lineWidth = 3;
+
+  const widths = labels.map(label => ctx.measureText(label.text).width);
+  let x = enemy.x - (widths.reduce((sum, width) => sum + width, 0) + gap * (labels.length - 1)) / 2;
+  labels.forEach((label, index) => {
+    ctx.strokeText(label.text, x, y);
+    ctx.fillStyle = label.color;
+    ctx.fillText(label.text, x, y);
+    x += widths[index] + gap;
+  });
+  ctx.restore();
+};
+
 /**
  * Draw HP bar below enemy
  */
@@ -545,6 +658,250 @@ const drawSpaceCraft = (ctx: CanvasRenderingContext2D, enemy: any): void => {
   ctx.fill();
 };
 
+/**
+ * Draw the armor layer of an armored enemy: a ring of metal plates
+ */
+const drawArmor = (ctx: CanvasRenderingContext2D, enemy: any): void => {
+  const plateCount = 6;
+  const innerRadius = enemy.radius + 3;
+  const outerRadius = enemy.radius + 9;
+  const gap = 0.12; // Radians left open between plates
+
+  ctx.save();
+  for (let i = 0; i < plateCount; i++) {
+    const startAngle = (Math.PI * 2 / plateCount) * i + gap / 2;
+    const endAngle = (Math.PI * 2 / plateCount) * (i + 1) - gap / 2;
+
+    ctx.beginPath();
+    ctx.arc(enemy.x, enemy.y, outerRadius, startAngle, endAngle);
+    ctx.arc(enemy.x, enemy.y, innerRadius, endAngle, startAngle, true);
+    ctx.closePath();
+    ctx.fillStyle = '#95a5a6';
+    ctx.fill();
+    ctx.strokeStyle = '#ecf0f1';
+    ctx.lineWidth = 1;
+    ctx.stroke();
+  }
+  ctx.restore();
+};
+
+/**
+ * Draw the targeting reticle of a ranged enemy: a dashed ring with four sights
+ */
+const drawReticle = (ctx: CanvasRenderingContext2D, enemy: any): void => {
+  const radius = enemy.radius + 8;
+
+  ctx.save();
+  ctx.strokeStyle = 'rgba(255, 82, 82, 0.85)';
+  ctx.lineWidth = 2;
+  ctx.setLineDash([4, 4]);
+  ctx.beginPath();
+  ctx.arc(enemy.x, enemy.y, radius, 0, Math.PI * 2);
+  ctx.stroke();
+
+  ctx.setLineDash([]);
+  for (let i = 0; i < 4; i++) {
+    const angle = (Math.PI / 2) * i;
+    ctx.beginPath();
+    ctx.moveTo(enemy.x + Math.cos(angle) * (radius - 4), enemy.y + Math.sin(angle) * (radius - 4));
+    ctx.lineTo(enemy.x + Math.cos(angle) * (radius + 6), enemy.y + Math.sin(angle) * (radius + 6));
+    ctx.stroke();
+  }
+  ctx.restore();
+};
+
+/**
+ * Draw the aura of a support enemy: its reach, a ring pulsing outward and a role mark on the body
+ */
+const drawSupportAura = (ctx: CanvasRenderingContext2D, enemy: any): void => {
+  const role = SUPPORT_ROLES[enemy.support.role as SupportRole];
+  const pulse = ((enemy.pulsePhase || 0) / (Math.PI * 2)) % 1;
+  const { r, g, b } = hexToRgb(role.color) || { r: 255, g: 255, b: 255 };
+
+  ctx.save();
+
+  // Faint disc showing how far the aura reaches
+  ctx.beginPath();
+  ctx.arc(enemy.x, enemy.y, role.radius, 0, Math.PI * 2);
+  ctx.fillStyle = `rgba(${r}, ${g}, ${b}, 0.06)`;
+  ctx.fill();
+  ctx.strokeStyle = `rgba(${r}, ${g}, ${b}, 0.35)`;
+  ctx.lineWidth = 1;
+  ctx.setLineDash([6, 6]);
+  ctx.stroke();
+  ctx.setLineDash([]);
+
+  // Ring travelling outward to the edge of the aura
+  ctx.beginPath();
+  ctx.arc(enemy.x, enemy.y, enemy.radius + (role.radius - enemy.radius) * pulse, 0, Math.PI * 2);
+  ctx.strokeStyle = `rgba(${r}, ${g}, ${b}, ${0.6 * (1 - pulse)})`;
+  ctx.lineWidth = 2;
+  ctx.stroke();
+
+  // Role mark on the body: a cross for healers, a diamond for warders, a chevron for hasteners
+  const size = enemy.radius * 0.45;
+  ctx.strokeStyle = '#ffffff';
+  ctx.lineWidth = 3;
+  ctx.beginPath();
+  if (enemy.support.role === 'healer') {
+    ctx.moveTo(enemy.x - size, enemy.y);
+    ctx.lineTo(enemy.x + size, enemy.y);
+    ctx.moveTo(enemy.x, enemy.y - size);
+    ctx.lineTo(enemy.x, enemy.y + size);
+  } else if (enemy.support.role === 'warder') {
+    ctx.moveTo(enemy.x, enemy.y - size);
+    ctx.lineTo(enemy.x + size, enemy.y);
+    ctx.lineTo(enemy.x, enemy.y + size);
+    ctx.lineTo(enemy.x - size, enemy.y);
+    ctx.closePath();
+  } else {
+    ctx.moveTo(enemy.x - size, enemy.y + size * 0.6);
+    ctx.lineTo(enemy.x, enemy.y - size * 0.6);
+    ctx.lineTo(enemy.x + size, enemy.y + size * 0.6);
+  }
+  ctx.stroke();
+  ctx.restore();
+};
+
+/**
+ * Draw the golden bubble of an enemy protected by a warder
+ */
+const drawWard = (ctx: CanvasRenderingContext2D, enemy: any): void => {
+  ctx.save();
+  ctx.beginPath();
+  ctx.arc(enemy.x, enemy.y, enemy.radius + 6, 0, Math.PI * 2);
+  ctx.fillStyle = 'rgba(241, 196, 15, 0.15)';
+  ctx.fill();
+  ctx.strokeStyle = 'rgba(241, 196, 15, 0.8)';
+  ctx.lineWidth = 2;
+  ctx.stroke();
+  ctx.restore();
+};
+
+/**
+ * Draw speed streaks behind an enemy hastened by a hastener
+ */
+const drawHaste = (ctx: CanvasRenderingContext2D, enemy: any): void => {
+  const speed = Math.sqrt(enemy.velocityX * enemy.velocityX + enemy.velocityY * enemy.velocityY);
+  if (speed === 0) return;
+
+  const backX = -enemy.velocityX / speed;
+  const backY = -enemy.velocityY / speed;
+
+  ctx.save();
+  ctx.strokeStyle = 'rgba(231, 76, 60, 0.7)';
+  ctx.lineWidth = 2;
+  for (const offset of [-0.5, 0, 0.5]) {
+    const startX = enemy.x + backX * enemy.radius - backY * enemy.radius * offset;
+    const startY = enemy.y + backY * enemy.radius + backX * enemy.radius * offset;
+    ctx.beginPath();
+    ctx.moveTo(startX, startY);
+    ctx.lineTo(startX + backX * enemy.radius, startY + backY * enemy.radius);
+    ctx.stroke();
+  }
+  ctx.restore();
+};
+
+/**
+ * Draw an incoming missile: a small warhead pointing at the player with its word above it
+ */
+export const drawMissile = (ctx: CanvasRenderingContext2D, missile: any): void => {
+  const angle = Math.atan2(missile.velocityY, missile.velocityX);
+  const size = missile.radius;
+
+  // Exhaust flame behind the warhead
+  ctx.save();
+  ctx.translate(missile.x, missile.y);
+  ctx.rotate(angle);
+
+  const flameGradient = ctx.createLinearGradient(-size * 3, 0, -size, 0);
+  flameGradient.addColorStop(0, 'rgba(255, 152, 0, 0)');
+  flameGradient.addColorStop(1, 'rgba(255, 87, 34, 0.9)');
+  ctx.beginPath();
+  ctx.moveTo(-size, -size * 0.4);
+  ctx.lineTo(-size * 3, 0);
+  ctx.lineTo(-size, size * 0.4);
+  ctx.closePath();
+  ctx.fillStyle = flameGradient;
+  ctx.fill();
+
+  // Warhead
+  ctx.beginPath();
+  ctx.moveTo(size * 1.4, 0);
+  ctx.lineTo(-size, -size * 0.6);
+  ctx.lineTo(-size, size * 0.6);
+  ctx.closePath();
+  ctx.fillStyle = '#ff5252';
+  ctx.fill();
+  ctx.strokeStyle = '#ffffff';
+  ctx.lineWidth = 1;
+  ctx.stroke();
+  ctx.restore();
+
+  // Word above the missile, typed letters in green
+  const wordY = missile.y - size - 14;
+  const typedLength = Math.floor(missile.typedProgress * missile.word.length);
+  const typedPortion = missile.word.substring(0, typedLength);
+  const remainingPortion = missile.word.substring(typedLength);
+
+  ctx.save();
+  ctx.font = 'bold 18px Arial';
+  ctx.textBaseline = 'middle';
+  ctx.textAlign = 'left';
+  const startX = missile.x - ctx.measureText(missile.word).width / 2;
+  const typedWidth = ctx.measureText(typedPortion).width;
+
+  ctx.strokeStyle = 'rgba(0, 0, 0, 0.8)';
+  ctx.lineWidth = 3;
+  ctx.strokeText(missile.word, startX, wordY);
+
+  ctx.fillStyle = '#00ff00';
+  ctx.fillText(typedPortion, startX, wordY);
+  ctx.fillStyle = '#ffcdd2';
+  ctx.fillText(remainingPortion, startX + typedWidth, wordY);
+  ctx.restore();
+};
+
+/**
+ * Draw a splitter enemy: two pods joined by a crack, one for each part of its word
+ */
+const drawSplitter = (ctx: CanvasRenderingContext2D, enemy: any): void => {
+  const radius = enemy.radius;
+  const podRadius = radius * 0.6;
+
+  // Draw both pods
+  for (const side of [-1, 1]) {
+    ctx.beginPath();
+    ctx.arc(enemy.x + side * radius * 0.45, enemy.y, podRadius, 0, Math.PI * 2);
+    ctx.fillStyle = enemy.color;
+    ctx.fill();
+    ctx.strokeStyle = shadeColor(enemy.color, -25);
+    ctx.lineWidth = 2;
+    ctx.stroke();
+    ctx.closePath();
+  }
+
+  // Jagged crack down the middle where the splitter will break apart
+  ctx.beginPath();
+  ctx.moveTo(enemy.x, enemy.y - podRadius);
+  ctx.lineTo(enemy.x - radius * 0.12, enemy.y - podRadius * 0.35);
+  ctx.lineTo(enemy.x + radius * 0.12, enemy.y + podRadius * 0.1);
+  ctx.lineTo(enemy.x - radius * 0.08, enemy.y + podRadius * 0.5);
+  ctx.lineTo(enemy.x, enemy.y + podRadius);
+  ctx.strokeStyle = 'rgba(255, 255, 255, 0.85)';
+  ctx.lineWidth = 2;
+  ctx.stroke();
+
+  // Core glow in each pod
+  for (const side of [-1, 1]) {
+    ctx.beginPath();
+    ctx.arc(enemy.x + side * radius * 0.5, enemy.y, podRadius * 0.35, 0, Math.PI * 2);
+    ctx.fillStyle = 'rgba(200, 255, 240, 0.7)';
+    ctx.fill();
+    ctx.closePath();
+  }
+};
+
 /**
  * Draw a UFO enemy (elite enemies)
  */
@@ -593,18 +950,14 @@ const drawUFO = (ctx: CanvasRenderingContext2D, enemy: any): void => {
 const drawMeteor = (ctx: CanvasRenderingContext2D, enemy: any, isBoss: boolean = false): void => {
   const radius = enemy.radius;
 
-  // Cache crater data on enemy object to avoid regenerating every frame
-  if (!enemy.craterCache) {
-    enemy.craterCache = [];
-    const craterCount = isBoss ? 7 : 4;
-    for (let i = 0; i < craterCount; i++) {
-      enemy.craterCache.push({
-        angle: Math.random() * Math.PI * 2,
-        distance: Math.random() * radius * 0.7,
-        size: radius * (0.1 + Math.random() * 0.15)
-      });
-    }
-  }
+  // Craters come from the enemy's id, so they stay put from frame to frame without storing anything
+  // on the enemy - it's drawn from a fresh interpolated copy every frame
+  const craterRng = createRandomSource(enemy.id);
+  const craters = Array.from({ length: isBoss ? 7 : 4 }, () => ({
+    angle: craterRng.next() * Math.PI * 2,
+    distance: craterRng.next() * radius * 0.7,
+    size: radius * (0.1 + craterRng.next() * 0.15)
+  }));
 
   // Draw the main meteor body - use simpler shape for performance
   ctx.beginPath();
@@ -632,8 +985,8 @@ const drawMeteor = (ctx: CanvasRenderingContext2D, enemy: any, isBoss: boolean =
   ctx.fillStyle = meteorGradient;
   ctx.fill();
 
-  // Draw craters using cached data
-  for (const crater of enemy.craterCache) {
+  // Draw craters
+  for (const crater of craters) {
     const x = enemy.x + Math.cos(crater.angle) * crater.distance;
     const y = enemy.y + Math.sin(crater.angle) * crater.distance;
 
@@ -0,0 +1,53 @@
+/**
+ * Saved run storage
+ * Keeps one in-progress run in localStorage so it survives closing the tab.
+ */
+import {
+  type RunSnapshot,
+  SNAPSHOT_FORMAT_VERSION
+} from './mechanics/runSnapshot';
+
+const SAVED_RUN_KEY = 'world-defender:saved-run';
+
+/**
+ * Save a run snapshot, replacing any previously saved run
+ */
+export const saveRun = (snapshot: RunSnapshot): void => {
+  try {
+    localStorage.setItem(SAVED_RUN_KEY, JSON.stringify(snapshot));
+  } catch (error) {
+    // Storage can be full or disabled - the run just won't be resumable
+    console.warn('Failed to save run', error);
+  }
+};
+
+/**
+ * Load the saved run, if there is a usable one
+ */
+export const loadSavedRun = (): RunSnapshot | null => {
+  try {
+    const data = localStorage.getItem(SAVED_RUN_KEY);
+    if (!data) return null;
+
+    const snapshot = JSON.parse(data) as RunSnapshot;
+    if (snapshot.version !== SNAPSHOT_FORMAT_VERSION) {
+      clearSavedRun();
+      return null;
+    }
+    return snapshot;
+  } catch (error) {
+    console.warn('Failed to load saved run', error);
+    return null;
+  }
+};
+
+/**
+ * Forget the saved run (it finished or a new run replaced it)
+ */
+export const clearSavedRun = (): void => {
+  try {
+    localStorage.removeItem(SAVED_RUN_KEY);
+  } catch (error) {
+    console.warn('Failed to clear saved run', error);
+  }
+};
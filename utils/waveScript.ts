@@ -0,0 +1,413 @@
+/**
+ * Wave scripts
+ * Waves are plain data: a wave set lists every wave's enemy mix, spawn timeline and boss, along with the
+ * health curve enemies follow and when relic stars arrive. Wave sets can be loaded from JSON, so they are
+ * checked by a validator that reports every problem with its path in the data.
+ */
+import type { MovementBehavior, FormationShape, WaveTimelineEntry } from './gameModels';
+import { FORMATIONS, MOVEMENT_BEHAVIORS, BOSS_DEFINITIONS } from './gameModels';
+import { type WordTierWeights, WORD_TIERS } from './wordGenerator';
+
+/**
+ * Interface for the chances of a wave's enemies having each twist
+ */
+export interface EnemyMix {
+  elite: number;
+  splitter: number; // Regular enemy being a splitter
+  armored: number; // Regular or elite enemy wearing armor
+  ranged: number; // Regular enemy firing missiles from a distance
+  support: number; // Regular enemy being a healer, warder or hastener
+  stealth: number; // Regular enemy obscuring its word until it closes in
+}
+
+/**
+ * Interface for the definition of a wave
+ */
+export interface WaveDefinition {
+  enemyCount: number; // Enemies to defeat to clear the wave
+  mix: EnemyMix;
+  movement: Partial<Record<MovementBehavior, number>>; // Relative weights, missing behaviours are never picked
+  wordTiers: WordTierWeights; // How likely short, medium and long words are
+  timeline: WaveTimelineEntry[]; // When each formation arrives, starting over until the wave is cleared
+  timelineDuration: number; // Milliseconds before the timeline starts over
+  boss?: string | null; // Id of the boss encounter that opens the wave
+}
+
+/**
+ * Interface for the base health of enemies by wave: linear between the points, growing steadily past the last one
+ */
+export interface HealthCurve {
+  points: { wave: number; health: number }[];
+  growthPerWave: number;
+}
+
+/**
+ * Interface for a complete set of waves (plain data, so it can be saved and recorded)
+ */
+export interface WaveSet {
+  name: string;
+  healthCurve: HealthCurve;
+  relicStars: { firstAt: number; interval: number }; // Milliseconds into the run, then between stars
+  waves: WaveDefinition[]; // Waves past the last one are generated like the built-in waves
+}
+
+/**
+ * Interface for a problem in a wave set, located by its path in the data (e.g. "waves[3].timeline[0].formation")
+ */
+export interface WaveSetError {
+  path: string;
+  message: string;
+}
+
+/**
+ * Result of validating a wave set: the wave set when it's valid, every problem found when it isn't
+ */
+export type WaveSetValidationResult =
+  | { valid: true; waveSet: WaveSet }
+  | { valid: false; errors: WaveSetError[] };
+
+/**
+ * Get the definition of a wave - waves past the end of the set are generated, so they keep getting harder
+ */
+export const getWaveDefinition = (waveSet: WaveSet, wave: number): WaveDefinition => {
+  const index = Math.max(wave, 1) - 1;
+  if (index < waveSet.waves.length) return waveSet.waves[index];
+
+  // Generated waves only depend on their number, so each is built once
+  let generated = generatedWaves.get(wave);
+  if (!generated) {
+    generated = createDefaultWave(wave);
+    generatedWaves.set(wave, generated);
+  }
+  return generated;
+};
+
+/**
+ * Get the base health of an enemy in a wave from a health curve
+ */
+export const getBaseHealth = (curve: HealthCurve, wave: number): number => {
+  const { points } = curve;
+  if (wave <= points[0].wave) return points[0].health;
+
+  for (let i = 1; i < points.length; i++) {
+    const from = points[i - 1];
+    const to = points[i];
+    if (wave <= to.wave) {
+      return from.health + (to.health - from.health) * (wave - from.wave) / (to.wave - from.wave);
+    }
+  }
+
+  const last = points[points.length - 1];
+  return last.health + (wave - last.wave) * curve.growthPerWave;
+};
+
+// The built-in wave set
+
+const DEFAULT_WAVE_COUNT = 25;
+const BOSS_WAVE_INTERVAL = 5; // Every fifth wave opens with a boss
+const DEFAULT_BOSS_ORDER = ['comet_king', 'void_leviathan', 'world_breaker']; // Starting over after the last
+// Wave each formation is first sent in
+const FORMATION_UNLOCK_WAVES: Record<Exclude<FormationShape, 'single'>, number> = {
+  line: 2,
+  wedge: 3,
+  column: 4,
+  ring: 6
+};
+const TRICKLE_LENGTH = 3; // Single enemies between formations
+const BREATHER_INTERVALS = 3; // Spawn intervals of quiet after each formation
+
+// Wave pacing: a trickle of single enemies, then a formation and a breather, until the wave's enemies are all scheduled.
+// The first waves have no formations unlocked, so they're a steady trickle.
+const buildWaveTimeline = (wave: number, enemyCount: number, spawnInterval: number) => {
+  const formations = (Object.keys(FORMATION_UNLOCK_WAVES) as Exclude<FormationShape, 'single'>[])
+    .filter(shape => FORMATION_UNLOCK_WAVES[shape] <= wave);
+  const timeline: WaveTimelineEntry[] = [];
+  let at = spawnInterval; // The first enemy arrives one spawn interval after the wave starts
+  let scheduled = 0;
+  let formationCount = 0;
+
+  while (scheduled < enemyCount) {
+    for (let i = 0; i < TRICKLE_LENGTH && scheduled < enemyCount; i++) {
+      timeline.push({ at, formation: 'single' });
+      at += spawnInterval;
+      scheduled++;
+    }
+    if (scheduled >= enemyCount || formations.length === 0) continue;
+
+    // Each wave opens with a different formation and cycles through the rest
+    const formation = formations[(wave + formationCount++) % formations.length];
+    timeline.push({ at, formation });
+    scheduled += FORMATIONS[formation].size;
+    at += spawnInterval * BREATHER_INTERVALS;
+  }
+
+  return { timeline, duration: at };
+};
+
+const createDefaultWave = (wave: number): WaveDefinition => {
+  const baseEnemyCount = 5;
+  const enemyCount = baseEnemyCount + Math.floor(wave * 1.5);
+  const spawnInterval = Math.max(500, 2000 - (wave * 100));
+  const { timeline, duration } = buildWaveTimeline(wave, enemyCount, spawnInterval);
+
+  // Words get longer as waves progress - short words fade out, long words fade in from wave 3
+  const shortWordChance = Math.max(0.7 - (wave * 0.05), 0.1);
+  const longWordChance = Math.min(Math.max((wave - 2) * 0.05, 0), 0.5);
+
+  return {
+    enemyCount,
+    mix: {
+      elite: Math.min(0.1 + (wave * 0.05), 0.4), // Increases gradually, capped at 40%
+      splitter: Math.min(Math.max((wave - 2) * 0.03, 0), 0.2), // From wave 3, up to 20%
+      armored: Math.min(Math.max((wave - 3) * 0.03, 0), 0.15), // From wave 4, up to 15%
+      ranged: Math.min(Math.max((wave - 4) * 0.03, 0), 0.15), // From wave 5, up to 15%
+      support: Math.min(Math.max((wave - 5) * 0.03, 0), 0.15), // From wave 6, up to 15%
+      stealth: Math.min(Math.max((wave - 6) * 0.03, 0), 0.15) // From wave 7, up to 15%
+    },
+    // Movement behaviours unlock one after another - most enemies still home straight in
+    movement: {
+      direct: 1,
+      zigzag: Math.min(Math.max((wave - 1) * 0.1, 0), 0.5), // From wave 2
+      dash: Math.min(Math.max((wave - 2) * 0.08, 0), 0.4), // From wave 3
+      spiral: Math.min(Math.max((wave - 3) * 0.08, 0), 0.4), // From wave 4
+      flank: Math.min(Math.max((wave - 5) * 0.08, 0), 0.4), // From wave 6
+      blink: Math.min(Math.max((wave - 7) * 0.06, 0), 0.3) // From wave 8
+    },
+    wordTiers: {
+      short: shortWordChance,
+      medium: 1 - shortWordChance - longWordChance,
+      long: longWordChance
+    },
+    timeline,
+    timelineDuration: duration,
+    boss: wave % BOSS_WAVE_INTERVAL === 0
+      ? DEFAULT_BOSS_ORDER[(wave / BOSS_WAVE_INTERVAL - 1) % DEFAULT_BOSS_ORDER.length]
+      : null
+  };
+};
+
+const generatedWaves = new Map<number, WaveDefinition>();
+
+/**
+ * The built-in wave set
+ */
+export const defaultWaveSet: WaveSet = {
+  name: 'Standard',
+  // First wave enemies die in one hit, then health grows faster through the mid game
+  // and slower late, so skill synergies still matter
+  healthCurve: {
+    points: [
+      { wave: 1, health: 10 },
+      { wave: 5, health: 42 },
+      { wave: 10, health: 102 },
+      { wave: 20, health: 252 }
+    ],
+    growthPerWave: 18
+  },
+  relicStars: { firstAt: 120000, interval: 120000 }, // Every 2 minutes
+  waves: Array.from({ length: DEFAULT_WAVE_COUNT }, (_, index) => createDefaultWave(index + 1))
+};
+
+// Validation
+
+interface NumberRange {
+  min?: number;
+  above?: number; // Exclusive minimum
+  max?: number;
+  integer?: boolean;
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+// Short description of a value for error messages
+const describe = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'an array';
+  if (typeof value === 'string') return `"${value}"`;
+  if (typeof value === 'object') return 'an object';
+  return String(value);
+};
+
+/**
+ * Check that data is a well-formed wave set, collecting every problem rather than stopping at the first
+ */
+export const validateWaveSet = (data: unknown): WaveSetValidationResult => {
+  const errors: WaveSetError[] = [];
+  const report = (path: string, message: string) => {
+    errors.push({ path, message });
+  };
+  const join = (path: string, key: string) => path ? `${path}.${key}` : key;
+
+  const checkObject = (value: unknown, path: string, fields: string[]): value is Record<string, unknown> => {
+    if (!isObject(value)) {
+      report(path || 'wave set', `expected an object, got ${describe(value)}`);
+      return false;
+    }
+    for (const key of Object.keys(value)) {
+      if (!fields.includes(key)) report(join(path, key), `unknown field (expected one of ${fields.join(', ')})`);
+    }
+    return true;
+  };
+
+  const checkNumber = (value: unknown, path: string, range: NumberRange = {}): value is number => {
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      report(path, `expected a number, got ${describe(value)}`);
+      return false;
+    }
+    if (range.integer && !Number.isInteger(value)) {
+      report(path, `expected a whole number, got ${value}`);
+      return false;
+    }
+    if (range.min !== undefined && value < range.min) {
+      report(path, `must be at least ${range.min}, got ${value}`);
+      return false;
+    }
+    if (range.above !== undefined && value <= range.above) {
+      report(path, `must be greater than ${range.above}, got ${value}`);
+      return false;
+    }
+    if (range.max !== undefined && value > range.max) {
+      report(path, `must be at most ${range.max}, got ${value}`);
+      return false;
+    }
+    return true;
+  };
+
+  const checkArray = (value: unknown, path: string): value is unknown[] => {
+    if (!Array.isArray(value)) {
+      report(path, `expected an array, got ${describe(value)}`);
+      return false;
+    }
+    if (value.length === 0) {
+      report(path, 'must not be empty');
+      return false;
+    }
+    return true;
+  };
+
+  // Relative weights: none negative, at least one above zero
+  const checkWeights = (value: unknown, path: string, keys: readonly string[], required: boolean) => {
+    if (!checkObject(value, path, [...keys])) return;
+    let total = 0;
+    for (const key of keys) {
+      if (value[key] === undefined && !required) continue;
+      if (checkNumber(value[key], join(path, key), { min: 0 })) total += value[key] as number;
+    }
+    if (total <= 0) report(path, 'needs at least one weight above 0');
+  };
+
+  const checkHealthCurve = (curve: unknown, path: string) => {
+    if (!checkObject(curve, path, ['points', 'growthPerWave'])) return;
+    checkNumber(curve.growthPerWave, join(path, 'growthPerWave'), { min: 0 });
+    if (!checkArray(curve.points, join(path, 'points'))) return;
+
+    let previousWave: number | null = null;
+    curve.points.forEach((point, index) => {
+      const pointPath = `${path}.points[${index}]`;
+      if (!checkObject(point, pointPath, ['wave', 'health'])) return;
+      checkNumber(point.health, join(pointPath, 'health'), { above: 0 });
+      if (!checkNumber(point.wave, join(pointPath, 'wave'), { min: 1, integer: true })) return;
+      if (previousWave !== null && point.wave <= previousWave) {
+        report(join(pointPath, 'wave'), `must come after the previous point's wave ${previousWave}, got ${point.wave}`);
+      }
+      previousWave = point.wave;
+    });
+  };
+
+  const checkTimeline = (wave: Record<string, unknown>, path: string) => {
+    const timelinePath = join(path, 'timeline');
+    let lastAt = 0;
+    if (checkArray(wave.timeline, timelinePath)) {
+      wave.timeline.forEach((entry, index) => {
+        const entryPath = `${timelinePath}[${index}]`;
+        if (!checkObject(entry, entryPath, ['at', 'formation'])) return;
+        if (typeof entry.formation !== 'string' || !(entry.formation in FORMATIONS)) {
+          report(
+            join(entryPath, 'formation'),
+            `unknown formation ${describe(entry.formation)} (expected one of ${Object.keys(FORMATIONS).join(', ')})`
+          );
+        }
+        if (!checkNumber(entry.at, join(entryPath, 'at'), { min: 0 })) return;
+        if (entry.at < lastAt) {
+          report(join(entryPath, 'at'), `must not be earlier than the previous entry at ${lastAt}, got ${entry.at}`);
+        }
+        lastAt = Math.max(lastAt, entry.at);
+      });
+    }
+
+    const durationPath = join(path, 'timelineDuration');
+    if (checkNumber(wave.timelineDuration, durationPath, { above: 0 }) && wave.timelineDuration < lastAt) {
+      report(durationPath, `must be at least ${lastAt}, when the last formation arrives, got ${wave.timelineDuration}`);
+    }
+  };
+
+  const checkWave = (wave: unknown, path: string) => {
+    const fields = ['enemyCount', 'mix', 'movement', 'wordTiers', 'timeline', 'timelineDuration', 'boss'];
+    if (!checkObject(wave, path, fields)) return;
+
+    checkNumber(wave.enemyCount, join(path, 'enemyCount'), { min: 1, integer: true });
+
+    const mixPath = join(path, 'mix');
+    const mixFields = ['elite', 'splitter', 'armored', 'ranged', 'support', 'stealth'];
+    if (checkObject(wave.mix, mixPath, mixFields)) {
+      for (const field of mixFields) {
+        checkNumber(wave.mix[field], join(mixPath, field), { min: 0, max: 1 });
+      }
+    }
+
+    checkWeights(wave.movement, join(path, 'movement'), MOVEMENT_BEHAVIORS, false);
+    checkWeights(wave.wordTiers, join(path, 'wordTiers'), WORD_TIERS, true);
+    checkTimeline(wave, path);
+
+    if (wave.boss !== undefined && wave.boss !== null &&
+        !BOSS_DEFINITIONS.some(boss => boss.id === wave.boss)) {
+      report(
+        join(path, 'boss'),
+        `unknown boss ${describe(wave.boss)} (expected one of ${BOSS_DEFINITIONS.map(boss => boss.id).join(', ')})`
+      );
+    }
+  };
+
+  if (checkObject(data, '', ['name', 'healthCurve', 'relicStars', 'waves'])) {
+    if (typeof data.name !== 'string' || !data.name.trim()) {
+      report('name', `expected a name, got ${describe(data.name)}`);
+    }
+
+    checkHealthCurve(data.healthCurve, 'healthCurve');
+
+    if (checkObject(data.relicStars, 'relicStars', ['firstAt', 'interval'])) {
+      checkNumber(data.relicStars.firstAt, 'relicStars.firstAt', { min: 0 });
+      checkNumber(data.relicStars.interval, 'relicStars.interval', { above: 0 });
+    }
+
+    if (checkArray(data.waves, 'waves')) {
+      data.waves.forEach((wave, index) => checkWave(wave, `waves[${index}]`));
+    }
+  }
+
+  return errors.length === 0
+    ? { valid: true, waveSet: data as WaveSet }
+    : { valid: false, errors };
+};
+
+/**
+ * Parse a wave set from a JSON file, throwing an error that lists the first problems found
+ */
+export const parseWaveSet = (content: string): WaveSet => {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch {
+    throw new Error('The wave set is not valid JSON');
+  }
+
+  const result = validateWaveSet(data);
+  if (!result.valid) {
+    const shown = result.errors.slice(0, 3).map(error => `${error.path}: ${error.message}`);
+    const more = result.errors.length > shown.length ? ` (and ${result.errors.length - shown.length} more)` : '';
+    throw new Error(`Invalid wave set - ${shown.join('; ')}${more}`);
+  }
+  return result.waveSet;
+};
@@ -1,3 +1,5 @@
+import { type RandomSource, pickRandom } from './mechanics/simulationCore';
+
 // Common English words for the game
 const words = [
   // Short words (3-4 letters)
@@ -39,6 +41,29 @@ const words = [
   'exist', 'expel', 'extol', 'extra', 'exult', 'fable', 'facet', 'fairy', 'faith', 'fancy',
   'fatal', 'feast', 'fecal', 'feign', 'fella', 'felon', 'femur', 'fence', 'feral', 'ferry',
   'fetal', 'fetch', 'fever', 'fiber', 'field', 'fiery', 'fifth', 'filch', 'filet', 'filly',
+  'gable', 'galaxy', 'garden', 'gentle', 'geyser', 'giant', 'ginger', 'glade', 'glider', 'globe',
+  'golden', 'gravel', 'habit', 'hammer', 'harbor', 'hazel', 'heron', 'hollow', 'honey', 'hound',
+  'humble', 'hunter', 'hatch', 'helmet', 'icicle', 'idiom', 'igloo', 'image', 'impact', 'inlet',
+  'insect', 'irony', 'island', 'ivory', 'index', 'jacket', 'jaguar', 'jelly', 'jester', 'jewel',
+  'jiggle', 'jockey', 'jolly', 'joust', 'judge', 'juice', 'jungle', 'kayak', 'kennel', 'kernel',
+  'kettle', 'kidney', 'kindle', 'kiosk', 'kitten', 'knack', 'knight', 'koala', 'krill', 'ladder',
+  'lagoon', 'laser', 'lemon', 'lever', 'lilac', 'linen', 'lizard', 'locket', 'lotus', 'lunar',
+  'lyric', 'magnet', 'mango', 'maple', 'marble', 'meadow', 'medal', 'melon', 'mirror', 'mocha',
+  'molten', 'mosaic', 'motor', 'napkin', 'nectar', 'needle', 'nerve', 'nickel', 'nimble', 'noble',
+  'noodle', 'north', 'novel', 'nugget', 'nylon', 'oasis', 'object', 'ocean', 'octave', 'olive',
+  'onion', 'opera', 'orbit', 'orchid', 'otter', 'oxygen', 'oyster', 'paddle', 'palace', 'panda',
+  'parrot', 'pebble', 'pepper', 'piano', 'pickle', 'pilot', 'planet', 'plaza', 'pocket', 'quail',
+  'quake', 'quartz', 'queen', 'quest', 'quick', 'quiet', 'quill', 'quilt', 'quirk', 'quiver',
+  'quota', 'rabbit', 'radar', 'radish', 'raven', 'razor', 'rebel', 'ribbon', 'riddle', 'river',
+  'robot', 'rocket', 'rustic', 'saddle', 'salmon', 'sandal', 'scarf', 'shadow', 'shield', 'silver',
+  'sketch', 'slalom', 'spiral', 'stone', 'sunset', 'tablet', 'tango', 'temple', 'tiger', 'timber',
+  'toast', 'topaz', 'torch', 'tundra', 'turtle', 'tulip', 'trophy', 'ultra', 'umber', 'umpire',
+  'uncle', 'unity', 'unveil', 'upbeat', 'uplift', 'upset', 'urban', 'usher', 'utmost', 'valley',
+  'vapor', 'velvet', 'venom', 'verse', 'vessel', 'viking', 'violet', 'viper', 'vision', 'vivid',
+  'voyage', 'waffle', 'walnut', 'walrus', 'wander', 'warden', 'wealth', 'whale', 'wheat', 'willow',
+  'wizard', 'wonder', 'wreath', 'xenon', 'xylem', 'xenial', 'yacht', 'yearly', 'yeast', 'yellow',
+  'yield', 'yodel', 'yogurt', 'young', 'youth', 'yonder', 'zealot', 'zebra', 'zenith', 'zephyr',
+  'zigzag', 'zinnia', 'zipper', 'zircon', 'zodiac', 'zombie',
 
   // Long words (7+ letters)
   'abandon', 'abashed', 'abolish', 'abscond', 'absence', 'absolve', 'absorb', 'abstain', 'abstract', 'abstruse',
@@ -125,15 +150,401 @@ const words = [
   'downfall', 'downpour', 'downtown', 'dragon', 'drainage', 'dramatic', 'drapery', 'drastic', 'draught', 'dreadful',
   'dreary', 'drenched', 'dresser', 'drifter', 'drizzle', 'droopy', 'droplet', 'drudgery', 'drummer', 'drunken',
   'dubious', 'duchess', 'duckling', 'duffel', 'dugout', 'dulcet', 'dulcimer', 'dumpling', 'dungeon', 'durable',
-  'duration', 'duress', 'during', 'dwindle', 'dynamic', 'dynasty', 'dyslexia'
+  'duration', 'duress', 'during', 'dwindle', 'dynamic', 'dynasty', 'dyslexia',
+  'eclipse', 'ecology', 'economy', 'ecstatic', 'educate', 'eggplant', 'elastic', 'election', 'elegant', 'element',
+  'elephant', 'elevator', 'eloquent', 'embassy', 'emerald', 'emperor', 'enchant', 'endeavor', 'engineer', 'enormous',
+  'envelope', 'epidemic', 'equator', 'eruption', 'escalate', 'espresso', 'eternal', 'evidence', 'examine', 'exciting',
+  'exercise', 'exhibit', 'expedition', 'explorer', 'express', 'extinct', 'fabulous', 'factory', 'fantasy', 'fashion',
+  'feather', 'festival', 'fiction', 'fireworks', 'flamingo', 'flexible', 'florist', 'foliage', 'football', 'forecast',
+  'fortress', 'fountain', 'fragment', 'freedom', 'frontier', 'function', 'furnace', 'galactic', 'gallery', 'gardener',
+  'garrison', 'generous', 'genuine', 'geometry', 'gigantic', 'giraffe', 'glacier', 'gladiator', 'glimmer', 'glorious',
+  'goldfish', 'gorgeous', 'governor', 'graceful', 'granite', 'graphite', 'gravity', 'gridlock', 'guardian', 'habitat',
+  'halcyon', 'handsome', 'harmony', 'harpoon', 'harvest', 'headline', 'heirloom', 'helpful', 'heritage', 'hexagon',
+  'highway', 'historic', 'holiday', 'homework', 'horizon', 'hospital', 'humidity', 'hurricane', 'hydrogen', 'hypnotic',
+  'iceberg', 'identity', 'ignition', 'illusion', 'imagine', 'immortal', 'impulse', 'incense', 'incident', 'industry',
+  'infinite', 'inflate', 'inherit', 'innocent', 'insight', 'instinct', 'integral', 'interval', 'invention', 'isolate',
+  'itinerary', 'jamboree', 'janitor', 'javelin', 'jealous', 'jellyfish', 'jetpack', 'jewelry', 'journal', 'journey',
+  'jubilant', 'judgment', 'juggler', 'junction', 'justice', 'juvenile', 'kaleidoscope', 'kangaroo', 'karaoke', 'keyboard',
+  'keystone', 'kilogram', 'kindness', 'kingdom', 'kinetic', 'kitchen', 'knapsack', 'knowledge', 'knuckle', 'labyrinth',
+  'lacquer', 'landmark', 'landscape', 'language', 'lantern', 'laughter', 'lavender', 'leadership', 'legendary', 'leisure',
+  'librarian', 'lifeboat', 'lighthouse', 'limestone', 'literacy', 'lobster', 'locomotive', 'longitude', 'luminous', 'luxurious',
+  'machine', 'magnetic', 'majestic', 'mandolin', 'mansion', 'marathon', 'marigold', 'material', 'maximum', 'mechanic',
+  'medicine', 'memorial', 'merchant', 'midnight', 'migration', 'military', 'minimum', 'miracle', 'mischief', 'monument',
+  'mountain', 'mushroom', 'mystery', 'narrative', 'national', 'natural', 'navigate', 'necklace', 'negotiate', 'neighbor',
+  'network', 'neutral', 'nightfall', 'nitrogen', 'nocturnal', 'notebook', 'novelty', 'nuclear', 'numeral', 'nurture',
+  'observe', 'obsidian', 'obstacle', 'occasion', 'octopus', 'odyssey', 'offering', 'official', 'operation', 'opponent',
+  'optimism', 'orchestra', 'ordinary', 'organic', 'original', 'ornament', 'outpost', 'overcome', 'overflow', 'oxidize',
+  'pacific', 'paladin', 'panorama', 'paradise', 'paragraph', 'parallel', 'passenger', 'pavilion', 'peculiar', 'pelican',
+  'penguin', 'pentagon', 'percent', 'perfume', 'pharaoh', 'phantom', 'pinnacle', 'platinum', 'pleasant', 'plumage',
+  'politics', 'portrait', 'potential', 'prairie', 'princess', 'prologue', 'pyramid', 'quadrant', 'quagmire', 'qualify',
+  'quantity', 'quantum', 'quarrel', 'quarter', 'quatrain', 'question', 'quicksand', 'quintet', 'quixotic', 'quotient',
+  'raccoon', 'radiance', 'rainbow', 'rampart', 'rational', 'reaction', 'recital', 'rectangle', 'redwood', 'reflect',
+  'regional', 'rehearse', 'relative', 'reliable', 'remember', 'renegade', 'republic', 'resonance', 'restless', 'revolver',
+  'rhythmic', 'romantic', 'rotation', 'royalty', 'sabotage', 'sanctuary', 'sapphire', 'satellite', 'sawdust', 'scaffold',
+  'scenario', 'scientist', 'scorpion', 'seashell', 'sentinel', 'serenade', 'shamrock', 'sheriff', 'shipwreck', 'skeleton',
+  'snowflake', 'solstice', 'sparkle', 'spectrum', 'splendid', 'squadron', 'starlight', 'strategy', 'submarine', 'sunlight',
+  'symphony', 'tactical', 'talisman', 'tangerine', 'tapestry', 'telescope', 'tempest', 'terrace', 'textile', 'theater',
+  'thimble', 'thistle', 'thunder', 'tornado', 'tortoise', 'tourist', 'tractor', 'tranquil', 'treasure', 'triangle',
+  'trombone', 'trumpet', 'tsunami', 'tutorial', 'twilight', 'typhoon', 'ukulele', 'ultimate', 'umbrella', 'unicorn',
+  'uniform', 'universe', 'unlikely', 'unusual', 'upgrade', 'upheaval', 'uprising', 'upstream', 'uranium', 'utensil',
+  'utility', 'vacation', 'vaccine', 'valiant', 'vanguard', 'vanilla', 'variable', 'vehicle', 'velocity', 'vendetta',
+  'ventilate', 'verdict', 'vertical', 'veteran', 'vibrant', 'victory', 'vigilant', 'village', 'vineyard', 'vintage',
+  'virtuoso', 'volcano', 'voltage', 'volunteer', 'voyager', 'wanderer', 'wardrobe', 'warrior', 'waterfall', 'wavelength',
+  'weather', 'wellness', 'whirlpool', 'whisker', 'whistle', 'wildcat', 'wildlife', 'windmill', 'wireless', 'wisteria',
+  'woodland', 'workshop', 'wrangler', 'wrestler', 'xylophone', 'xenolith', 'xeriscape', 'yearbook', 'yearning', 'yesterday',
+  'yielding', 'yodeler', 'youngster', 'yuletide', 'zealous', 'zeppelin', 'zestful', 'ziggurat', 'zillion', 'zoology',
+  'zucchini'
 ];
 
+// Compound words for splitter enemies, split into the parts they break into.
+// The parts of a compound start with different letters so each child can be targeted on its own.
+const compoundWords: CompoundWord[] = [
+  ['air', 'plane'], ['back', 'pack'], ['bed', 'room'], ['black', 'smith'], ['book', 'case'],
+  ['butter', 'fly'], ['cow', 'boy'], ['door', 'bell'], ['dragon', 'fly'], ['ear', 'ring'],
+  ['earth', 'quake'], ['egg', 'shell'], ['fire', 'work'], ['fish', 'bowl'], ['foot', 'ball'],
+  ['gold', 'fish'], ['grass', 'hopper'], ['hand', 'shake'], ['head', 'light'], ['heart', 'beat'],
+  ['home', 'work'], ['honey', 'comb'], ['horse', 'shoe'], ['jelly', 'fish'], ['key', 'board'],
+  ['lady', 'bug'], ['light', 'house'], ['lip', 'stick'], ['mail', 'box'], ['moon', 'light'],
+  ['note', 'book'], ['pan', 'cake'], ['pop', 'corn'], ['rain', 'bow'], ['rattle', 'snake'],
+  ['sand', 'castle'], ['sea', 'horse'], ['sky', 'line'], ['snow', 'ball'], ['space', 'craft'],
+  ['star', 'fish'], ['sun', 'flower'], ['tea', 'pot'], ['thunder', 'storm'], ['tooth', 'brush'],
+  ['water', 'fall'], ['week', 'end'], ['wind', 'mill']
+].map(parts => ({ word: parts.join(''), parts }));
+
+/**
+ * Word difficulty tiers
+ */
+export type WordTier = 'short' | 'medium' | 'long';
+
+/**
+ * How likely each tier is to be picked (weights don't need to add up to 1)
+ */
+export type WordTierWeights = Record<WordTier, number>;
+
+/**
+ * Interface for a compound word and the smaller words it is made of
+ */
+export interface CompoundWord {
+  word: string;
+  parts: string[];
+}
+
+/**
+ * Interface for a word list split into tiers (plain data, so it can be saved and recorded)
+ */
+export interface WordList {
+  name: string;
+  tiers: Record<WordTier, string[]>;
+  compounds?: CompoundWord[]; // Words for splitter enemies, none when the list has no compounds
+}
+
 /**
- * Generate a random word from the word list
+ * Interface for a source of words to type
  */
-export const getRandomWord = (): string => {
-  const randomIndex = Math.floor(Math.random() * words.length);
-  return words[randomIndex];
+export interface WordProvider {
+  name: string;
+  getWords: (tier: WordTier) => string[];
+  getCompoundWords: () => CompoundWord[];
+  getWordWeight?: (word: string) => number; // Relative chance of a word being picked (default 1)
+}
+
+/**
+ * Interface for the keys and key pairs a player struggles with, weighted by how much
+ */
+export interface WeakKeyFocus {
+  keys: Record<string, number>;
+  bigrams: Record<string, number>;
+}
+
+/**
+ * Interface for the options of a word pick
+ */
+export interface WordPickOptions {
+  tierWeights: WordTierWeights;
+  avoid: string[]; // Words already on screen
+}
+
+export const WORD_TIERS: WordTier[] = ['short', 'medium', 'long'];
+
+const MIN_CUSTOM_WORDS = 10;
+const MAX_MISSILE_WORD_LENGTH = 3;
+
+// Missile words for word lists without any short enough
+const fallbackMissileWords = ['ax', 'be', 'do', 'go', 'hi', 'if', 'in', 'me', 'no', 'of', 'ox', 'so', 'up', 'we', 'yo', 'zap'];
+const WEAK_BIGRAM_WEIGHT = 2; // A fumbled key pair counts more than a single fumbled key
+
+// When a tier has no usable word, try the closest tiers next
+const TIER_FALLBACK_ORDER: Record<WordTier, WordTier[]> = {
+  short: ['short', 'medium', 'long'],
+  medium: ['medium', 'long', 'short'],
+  long: ['long', 'medium', 'short']
+};
+
+// Tier of a word by its length
+const getWordTier = (word: string): WordTier => {
+  if (word.length <= 4) return 'short';
+  if (word.length <= 6) return 'medium';
+  return 'long';
+};
+
+// Only letters can be typed, so normalize words to lowercase letters and drop anything else
+const normalizeWords = (list: unknown[]): string[] => {
+  const normalized = list
+    .filter((word): word is string => typeof word === 'string')
+    .map(word => word.trim().toLowerCase())
+    .filter(word => /^[a-z]{2,}$/.test(word));
+  return [...new Set(normalized)];
+};
+
+// Keep compounds given as arrays of at least two parts that normalize to words and start with different letters
+const normalizeCompounds = (list: unknown[]): CompoundWord[] => {
+  return list
+    .filter((parts): parts is unknown[] => Array.isArray(parts))
+    .map(parts => normalizeWords(parts))
+    .filter(parts => parts.length >= 2 && new Set(parts.map(part => part[0])).size === parts.length)
+    .map(parts => ({ word: parts.join(''), parts }));
+};
+
+/**
+ * Create a word list, sorting words into tiers by length
+ */
+export const createWordList = (name: string, wordsToSort: string[]): WordList => {
+  const tiers: Record<WordTier, string[]> = { short: [], medium: [], long: [] };
+  for (const word of normalizeWords(wordsToSort)) {
+    tiers[getWordTier(word)].push(word);
+  }
+  return { name, tiers };
+};
+
+/**
+ * The built-in word list
+ */
+export const defaultWordList: WordList = {
+  ...createWordList('Default', words),
+  compounds: compoundWords
+};
+
+/**
+ * Count the words in a list
+ */
+export const getWordListSize = (list: WordList): number => {
+  return WORD_TIERS.reduce((total, tier) => total + list.tiers[tier].length, 0);
+};
+
+/**
+ * Parse a custom word list from a plain text file (one word per line or space separated, # starts a comment)
+ * or a JSON file (an array of words, { name, words } or { name, tiers: { short, medium, long } }).
+ * JSON objects may also list compound words for splitter enemies as "compounds": [["sun", "flower"], ...],
+ * whose parts must start with different letters.
+ */
+export const parseWordList = (content: string, fileName: string): WordList => {
+  const defaultName = fileName.replace(/\.[^.]+$/, '') || 'Custom';
+  let list: WordList;
+
+  if (fileName.toLowerCase().endsWith('.json')) {
+    let data: any;
+    try {
+      data = JSON.parse(content);
+    } catch {
+      throw new Error('The word list is not valid JSON');
+    }
+
+    const name = typeof data?.name === 'string' && data.name.trim() ? data.name.trim() : defaultName;
+    if (Array.isArray(data)) {
+      list = createWordList(defaultName, data);
+    } else if (Array.isArray(data?.words)) {
+      list = createWordList(name, data.words);
+    } else if (data?.tiers && typeof data.tiers === 'object') {
+      // Explicit tiers are kept as given
+      const tiers = Object.fromEntries(
+        WORD_TIERS.map(tier => [tier, Array.isArray(data.tiers[tier]) ? normalizeWords(data.tiers[tier]) : []])
+      ) as Record<WordTier, string[]>;
+      list = { name, tiers };
+    } else {
+      throw new Error('Expected an array of words, "words" or "tiers" in the JSON word list');
+    }
+
+    if (Array.isArray(data?.compounds)) {
+      list.compounds = normalizeCompounds(data.compounds);
+    }
+  } else {
+    const lines = content.split(/\r?\n/).filter(line => !line.trim().startsWith('#'));
+    list = createWordList(defaultName, lines.join(' ').split(/[\s,]+/));
+  }
+
+  if (getWordListSize(list) < MIN_CUSTOM_WORDS) {
+    throw new Error(`A word list needs at least ${MIN_CUSTOM_WORDS} words (letters only)`);
+  }
+  return list;
+};
+
+/**
+ * Create a word provider serving the words of a list
+ */
+export const createWordProvider = (list: WordList): WordProvider => {
+  return {
+    name: list.name,
+    getWords: (tier: WordTier) => list.tiers[tier],
+    getCompoundWords: () => list.compounds ?? []
+  };
+};
+
+/**
+ * Wrap a provider so words containing the player's weak keys and key pairs come up more often.
+ * The focus is read on every pick, so the bias follows the player's progress.
+ */
+export const createTrainingFocusProvider = (provider: WordProvider, getFocus: () => WeakKeyFocus): WordProvider => {
+  return {
+    ...provider,
+    getWordWeight: (word: string) => {
+      const { keys, bigrams } = getFocus();
+      let weight = provider.getWordWeight ? provider.getWordWeight(word) : 1;
+
+      for (const letter of new Set(word)) {
+        weight += keys[letter] || 0;
+      }
+      for (let i = 1; i < word.length; i++) {
+        weight += (bigrams[word[i - 1] + word[i]] || 0) * WEAK_BIGRAM_WEIGHT;
+      }
+      return weight;
+    }
+  };
+};
+
+/**
+ * Wrap a provider so it never serves a reserved word, a word starting with one or a word one starts with -
+ * typing any of them could otherwise complete the other first. Compounds are dropped when any part clashes.
+ */
+export const createReservedWordProvider = (provider: WordProvider, reserved: string[]): WordProvider => {
+  const clashes = (word: string) => reserved.some(other => word.startsWith(other) || other.startsWith(word));
+  const filteredTiers = new Map<WordTier, string[]>();
+
+  return {
+    ...provider,
+    getWords: (tier: WordTier) => {
+      // The underlying lists don't change during a run, so each tier is only filtered once
+      let tierWords = filteredTiers.get(tier);
+      if (!tierWords) {
+        tierWords = provider.getWords(tier).filter(word => !clashes(word));
+        filteredTiers.set(tier, tierWords);
+      }
+      return tierWords;
+    },
+    getCompoundWords: () => provider.getCompoundWords()
+      .filter(compound => !clashes(compound.word) && !compound.parts.some(clashes))
+  };
+};
+
+/**
+ * Shift tier weights towards longer words (elites draw from one tier up, bosses only from the longest)
+ */
+export const getEnemyWordTierWeights = (weights: WordTierWeights, isElite: boolean, isBoss: boolean): WordTierWeights => {
+  if (isBoss) {
+    return { short: 0, medium: 0, long: 1 };
+  }
+  if (isElite) {
+    return { short: 0, medium: weights.short, long: weights.medium + weights.long };
+  }
+  return weights;
+};
+
+// Pick a tier according to its weight
+const pickTier = (weights: WordTierWeights, rng: RandomSource): WordTier => {
+  const total = WORD_TIERS.reduce((sum, tier) => sum + weights[tier], 0);
+  let roll = rng.next() * total;
+
+  for (const tier of WORD_TIERS) {
+    roll -= weights[tier];
+    if (roll < 0) return tier;
+  }
+  return 'medium';
+};
+
+// Pick a word, using the provider's word weights when it has them
+const pickWord = (provider: WordProvider, rng: RandomSource, candidates: string[]): string => {
+  if (!provider.getWordWeight) {
+    return pickRandom(rng, candidates);
+  }
+
+  const weights = candidates.map(word => provider.getWordWeight!(word));
+  let roll = rng.next() * weights.reduce((sum, weight) => sum + weight, 0);
+  for (let i = 0; i < candidates.length; i++) {
+    roll -= weights[i];
+    if (roll < 0) return candidates[i];
+  }
+  return candidates[candidates.length - 1];
+};
+
+// Number of leading letters two words have in common
+const getSharedPrefixLength = (a: string, b: string): number => {
+  let length = 0;
+  while (length < a.length && length < b.length && a[length] === b[length]) {
+    length++;
+  }
+  return length;
+};
+
+/**
+ * Pick a random word from a provider.
+ * Words on screen are avoided by first letter, so typed text always points at a single target.
+ * When every first letter is taken, the word sharing the shortest prefix with the others is used.
+ */
+export const getRandomWord = (provider: WordProvider, rng: RandomSource, options: WordPickOptions): string => {
+  const tierOrder = TIER_FALLBACK_ORDER[pickTier(options.tierWeights, rng)];
+  const usedFirstLetters = new Set(options.avoid.map(word => word[0]));
+
+  for (const tier of tierOrder) {
+    const candidates = provider.getWords(tier).filter(word => !usedFirstLetters.has(word[0]));
+    if (candidates.length > 0) {
+      return pickWord(provider, rng, candidates);
+    }
+  }
+
+  const pool = tierOrder.map(tier => provider.getWords(tier)).find(tierWords => tierWords.length > 0);
+  if (!pool) {
+    throw new Error(`Word list "${provider.name}" has no words`);
+  }
+
+  let shortestSharedPrefix = Infinity;
+  let candidates: string[] = [];
+  for (const word of pool) {
+    const sharedPrefix = Math.max(...options.avoid.map(other => getSharedPrefixLength(word, other)));
+    if (sharedPrefix < shortestSharedPrefix) {
+      shortestSharedPrefix = sharedPrefix;
+      candidates = [word];
+    } else if (sharedPrefix === shortestSharedPrefix) {
+      candidates.push(word);
+    }
+  }
+  return pickWord(provider, rng, candidates);
+};
+
+/**
+ * Pick a random compound word from a provider whose parts avoid the first letters of words on screen,
+ * so the children it splits into can be targeted too.
+ * Returns null when the provider has no compound words or every one would clash.
+ */
+export const getRandomCompoundWord = (provider: WordProvider, rng: RandomSource, avoid: string[]): CompoundWord | null => {
+  const usedFirstLetters = new Set(avoid.map(word => word[0]));
+  const candidates = provider.getCompoundWords()
+    .filter(compound => compound.parts.every(part => !usedFirstLetters.has(part[0])));
+  if (candidates.length === 0) return null;
+
+  const word = pickWord(provider, rng, candidates.map(compound => compound.word));
+  return candidates.find(compound => compound.word === word)!;
+};
+
+/**
+ * Pick a 2-3 letter word for a missile from the provider's short words, avoiding the first letters of words on screen.
+ * When every first letter is taken, any missile word is used.
+ */
+export const getRandomMissileWord = (provider: WordProvider, rng: RandomSource, avoid: string[]): string => {
+  const providedWords = provider.getWords('short').filter(word => word.length <= MAX_MISSILE_WORD_LENGTH);
+  const pool = providedWords.length > 0 ? providedWords : fallbackMissileWords;
+
+  const usedFirstLetters = new Set(avoid.map(word => word[0]));
+  const candidates = pool.filter(word => !usedFirstLetters.has(word[0]));
+  return pickWord(provider, rng, candidates.length > 0 ? candidates : pool);
 };
 
 /**